@@ -0,0 +1,110 @@
+// Service worker: keeps the app, its map data and the fonts used for 3D labels
+// available offline, since Wi-Fi drops out in stairwells and basements.
+//
+// precache-manifest.js is written by the build (see vite.config.ts) and sets
+// self.PRECACHE = { version, app: [...], maps: [...] }.
+importScripts('precache-manifest.js')
+
+const { version, app, maps } = self.PRECACHE
+
+const APP_CACHE = `app-${version}`
+// Map data outlives app versions so updates are detected against the last copy seen
+const MAP_CACHE = 'map-data'
+const FONT_CACHE = 'fonts'
+
+// 3D labels are drawn with fonts troika-three-text fetches from this CDN;
+// the Latin glyphs are cached up front, anything else the first time it is used
+const FONT_CDN = 'https://cdn.jsdelivr.net/gh/lojjic/unicode-font-resolver@v1.0.1/packages/data'
+const TEXT_FONT_URLS = [
+  `${FONT_CDN}/codepoint-index/plane0/0-ff.json`,
+  `${FONT_CDN}/font-meta/latin.json`,
+  `${FONT_CDN}/font-files/latin/sans-serif.normal.400.woff`
+]
+const FONT_ORIGINS = ['https://cdn.jsdelivr.net', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com']
+
+const scoped = file => new URL(file, self.registration.scope).href
+
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    caches.open(APP_CACHE).then(cache => cache.addAll(app.map(scoped))),
+    caches.open(MAP_CACHE).then(cache => cache.addAll(maps.map(scoped))),
+    // Fonts are a nice-to-have: labels fall back to nothing rather than failing the install
+    caches.open(FONT_CACHE).then(cache => Promise.all(TEXT_FONT_URLS.map(url => cache.add(url).catch(() => undefined))))
+  ]))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('app-') && key !== APP_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// A new version waits until the page asks for it, so a route being followed is not interrupted
+self.addEventListener('message', event => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting()
+})
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  clients.forEach(client => client.postMessage(message))
+}
+
+// Cached map data straight away; the network copy replaces it for next time
+// and the page is told when it differs
+async function staleWhileRevalidate(event) {
+  const { request } = event
+  const cache = await caches.open(MAP_CACHE)
+  const cached = await cache.match(request, { ignoreSearch: true })
+  // Read before the cached copy is handed to the page, which consumes it
+  const previous = cached ? cached.clone().text() : Promise.resolve(null)
+
+  const update = fetch(request)
+    .then(async response => {
+      if (!response.ok) return response
+
+      const before = await previous
+      await cache.put(request.url.split('?')[0], response.clone())
+      if (before !== null && before !== await response.clone().text()) {
+        notifyClients({ type: 'map-data-updated', url: new URL(request.url).pathname })
+      }
+      return response
+    })
+    .catch(() => cached)
+  event.waitUntil(update)
+
+  return cached ?? update
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  // Deep links such as /?to=A233 all load the same app shell
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(scoped('index.html')).then(cached => cached ?? fetch(request)))
+  } else if (url.origin === self.location.origin && maps.some(file => url.href.startsWith(scoped(file)))) {
+    event.respondWith(staleWhileRevalidate(event))
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)))
+  } else if (FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE))
+  }
+})
@@ -0,0 +1,26 @@
+// Check a navigation map file for integrity problems.
+// Usage: npm run lint:map [-- path/to/map.json]
+import { readFile } from 'node:fs/promises'
+import { runnerImport } from 'vite'
+
+const file = process.argv[2] ?? 'public/maps/slc-campus.json'
+
+// Load the TypeScript module through Vite so the app and the script share one implementation
+const { module: linter } = await runnerImport('/src/utils/mapLint.ts', { configFile: false, logLevel: 'silent' })
+
+let data
+try {
+  data = JSON.parse(await readFile(file, 'utf8'))
+} catch (error) {
+  console.error(`${file}: ${error.message}`)
+  process.exit(1)
+}
+
+const issues = linter.lintMapFile(data)
+for (const issue of issues) {
+  console.log(`${issue.severity.padEnd(7)} ${issue.rule.padEnd(24)} ${issue.message}`)
+}
+
+const errors = issues.filter(issue => issue.severity === 'error').length
+console.log(`${file}: ${errors} error(s), ${issues.length - errors} warning(s)`)
+process.exit(errors > 0 ? 1 : 0)
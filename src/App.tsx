@@ -1,7 +1,13 @@
 import Navigation3D from './components/Navigation3D'
+import PosterSheet from './components/PosterSheet'
 
 function App() {
+  // Facilities print "Navigate from here" signs from /?posters
+  if (new URLSearchParams(window.location.search).has('posters')) {
+    return <PosterSheet />
+  }
+
   return <Navigation3D />
 }
 
-export default App
\ No newline at end of file
+export default App
@@ -1,31 +1,40 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Camera, Navigation, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Camera, Volume2, VolumeX } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
+import { TurnIcon } from './TurnIcon';
+import { Building } from '../utils/building';
+import { I18n } from '../utils/i18n';
+import { describeStep } from '../utils/instructions';
+import { PathStep } from '../utils/pathfinding';
 
 interface AROverlayProps {
+  map: Building;
+  i18n: I18n;
   isActive: boolean;
   onToggle: () => void;
   currentStep: number;
-  directions: Array<{
-    instruction: string;
-    distance: number;
-    direction: 'straight' | 'left' | 'right' | 'up' | 'down';
-    floor?: number;
-  }>;
+  directions: PathStep[];
   destination: string;
   onNextStep: () => void;
   onPrevStep: () => void;
+  // Spoken directions; left out where the browser cannot speak
+  voiceMuted?: boolean;
+  onToggleVoice?: () => void;
 }
 
 export const AROverlay: React.FC<AROverlayProps> = ({
+  map,
+  i18n,
   isActive,
   onToggle,
   currentStep,
   directions,
   destination,
   onNextStep,
-  onPrevStep
+  onPrevStep,
+  voiceMuted,
+  onToggleVoice
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -96,17 +105,9 @@ export const AROverlay: React.FC<AROverlayProps> = ({
     return () => stopCamera();
   }, [isActive, startCamera, requestOrientationPermission, stopCamera]);
 
-  const getDirectionIcon = (direction: string) => {
-    switch (direction) {
-      case 'left': return <ArrowLeft className="w-8 h-8" />;
-      case 'right': return <ArrowRight className="w-8 h-8" />;
-      case 'up': return <ArrowUp className="w-8 h-8" />;
-      case 'down': return <ArrowDown className="w-8 h-8" />;
-      default: return <ArrowUp className="w-8 h-8" />;
-    }
-  };
-
+  const { t } = i18n;
   const currentDirection = directions[currentStep];
+  const stopCount = directions.filter(step => step.waypoint).length;
 
   if (!isActive) {
     return (
@@ -124,16 +125,16 @@ export const AROverlay: React.FC<AROverlayProps> = ({
       <div className="fixed inset-0 z-50 bg-black flex items-center justify-center">
         <Card className="p-6 m-4 text-center">
           <Camera className="w-12 h-12 mx-auto mb-4 text-gray-400" />
-          <h3 className="text-lg font-semibold mb-2">Camera Access Required</h3>
+          <h3 className="text-lg font-semibold mb-2">{t('ar.cameraTitle')}</h3>
           <p className="text-gray-600 mb-4">
-            Please allow camera access to use AR navigation
+            {t('ar.cameraText')}
           </p>
           <div className="space-x-2">
             <Button onClick={startCamera} variant="default">
-              Try Again
+              {t('ar.retry')}
             </Button>
             <Button onClick={onToggle} variant="outline">
-              Cancel
+              {t('ar.cancel')}
             </Button>
           </div>
         </Card>
@@ -163,7 +164,7 @@ export const AROverlay: React.FC<AROverlayProps> = ({
             }}
           >
             <div className="text-white text-center">
-              {currentDirection && getDirectionIcon(currentDirection.direction)}
+              {currentDirection && <TurnIcon step={currentDirection} className="w-8 h-8" />}
             </div>
           </div>
         </div>
@@ -175,8 +176,13 @@ export const AROverlay: React.FC<AROverlayProps> = ({
               {Math.round(currentDirection.distance)}m
             </div>
             <div className="text-sm opacity-90">
-              {currentDirection.instruction}
+              {describeStep(map, currentDirection, i18n)}
             </div>
+            {currentDirection.waypoint && stopCount > 1 && (
+              <div className="text-xs font-semibold text-orange-300 mt-1">
+                {t('trip.stopOf', { stop: currentDirection.waypoint, count: stopCount })}
+              </div>
+            )}
           </div>
         )}
 
@@ -184,11 +190,11 @@ export const AROverlay: React.FC<AROverlayProps> = ({
         <div className="absolute top-4 left-4 right-4 bg-black/70 text-white p-4 rounded-lg">
           <div className="flex items-center justify-between">
             <div>
-              <div className="text-sm opacity-90">Navigating to</div>
+              <div className="text-sm opacity-90">{t('ar.navigatingTo')}</div>
               <div className="text-lg font-semibold">{destination}</div>
             </div>
             <div className="text-right">
-              <div className="text-sm opacity-90">Step</div>
+              <div className="text-sm opacity-90">{t('ar.step')}</div>
               <div className="text-lg font-semibold">
                 {currentStep + 1} / {directions.length}
               </div>
@@ -199,7 +205,7 @@ export const AROverlay: React.FC<AROverlayProps> = ({
         {/* Floor Change Indicator */}
         {currentDirection?.floor && (
           <div className="absolute top-1/4 left-1/2 transform -translate-x-1/2 bg-yellow-500/90 text-black px-4 py-2 rounded-lg font-semibold">
-            Floor {currentDirection.floor}
+            {t('floor.number', { floor: currentDirection.floor })}
           </div>
         )}
 
@@ -232,7 +238,7 @@ export const AROverlay: React.FC<AROverlayProps> = ({
               size="sm"
               className="bg-black/70 text-white border-white/20"
             >
-              Previous
+              {t('ar.previous')}
             </Button>
             <Button
               onClick={onNextStep}
@@ -241,19 +247,35 @@ export const AROverlay: React.FC<AROverlayProps> = ({
               size="sm"
               className="bg-black/70 text-white border-white/20"
             >
-              Next
+              {t('ar.next')}
             </Button>
           </div>
 
-          {/* Exit AR Button */}
-          <Button
-            onClick={onToggle}
-            variant="secondary"
-            size="sm"
-            className="bg-red-600/80 text-white hover:bg-red-700/80"
-          >
-            Exit AR
-          </Button>
+          <div className="flex space-x-2">
+            {/* Voice Toggle */}
+            {voiceMuted !== undefined && onToggleVoice && (
+              <Button
+                onClick={onToggleVoice}
+                variant="secondary"
+                size="sm"
+                aria-pressed={!voiceMuted}
+                title={voiceMuted ? t('voice.unmute') : t('voice.mute')}
+                className="bg-black/70 text-white border-white/20"
+              >
+                {voiceMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+              </Button>
+            )}
+
+            {/* Exit AR Button */}
+            <Button
+              onClick={onToggle}
+              variant="secondary"
+              size="sm"
+              className="bg-red-600/80 text-white hover:bg-red-700/80"
+            >
+              {t('ar.exit')}
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,190 @@
+import { useState, useMemo, useId, ComponentType, KeyboardEvent } from 'react'
+import { Input } from './ui/input'
+import { Card, CardContent } from './ui/card'
+import { Building, RoomCategory, getRooms, roomCategories } from '../utils/building'
+import { DirectoryEntry, DirectoryKind, directoryKinds } from '../utils/directory'
+import { I18n } from '../utils/i18n'
+import { Place, createPlaceIndex } from '../utils/searchIndex'
+
+// Suggestions shown at once, across all groups
+const MAX_SUGGESTIONS = 6
+
+// Filter chips: room categories, then directory kinds
+const placeCategories: (RoomCategory | DirectoryKind)[] = [...new Set([...roomCategories, ...directoryKinds])]
+
+// Suggestions grouped by kind; groups keep the rank of their best match
+function groupPlaces(places: Place[]): Place[] {
+  const kinds = [...new Set(places.map(place => place.kind))]
+  return kinds.flatMap(kind => places.filter(place => place.kind === kind))
+}
+
+function getPlaceKey(place: Place): string {
+  return 'entry' in place ? `${place.kind}:${place.entry.id}` : place.room.id
+}
+
+// Search box for rooms, people, departments and services, with a ranked
+// suggestion list; used for both ends of a route
+export function LocationSearch({ map, directory, i18n, query, onQueryChange, onSelect, placeholder, icon: Icon }: {
+  map: Building,
+  directory: DirectoryEntry[],
+  i18n: I18n,
+  query: string,
+  onQueryChange: (query: string) => void,
+  onSelect: (place: Place) => void,
+  placeholder: string,
+  icon: ComponentType<{ className?: string }>
+}) {
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [category, setCategory] = useState<string | null>(null)
+  const { t } = i18n
+  // Suggestions are announced through the input as a combobox, so focus stays in the box
+  const listId = useId()
+  const optionId = (i: number) => `${listId}-${i}`
+  const index = useMemo(() => createPlaceIndex(map, directory, i18n), [map, directory, i18n])
+  const categories = useMemo(
+    () => placeCategories.filter(option =>
+      getRooms(map).some(room => room.room.category === option) ||
+      directory.some(entry => entry.kind === option)
+    ),
+    [map, directory]
+  )
+  const suggestions = groupPlaces(index
+    .search(query, { categories: category ? [category] : undefined, limit: MAX_SUGGESTIONS })
+    .map(result => result.item))
+
+  const handleChange = (value: string) => {
+    onQueryChange(value)
+    setHighlighted(0)
+    setShowSuggestions(value.length > 0)
+  }
+
+  const handleSelect = (place: Place) => {
+    setShowSuggestions(false)
+    onSelect(place)
+  }
+
+  const toggleCategory = (option: string) => {
+    setCategory(category === option ? null : option)
+    setHighlighted(0)
+  }
+
+  // Arrow keys move through the suggestions, Enter picks one, Escape closes the list
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) {
+      if (event.key === 'ArrowDown' && query) setShowSuggestions(true)
+      return
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setHighlighted((highlighted + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+        break
+      case 'Enter':
+        event.preventDefault()
+        handleSelect(suggestions[Math.min(highlighted, suggestions.length - 1)])
+        break
+      case 'Escape':
+        setShowSuggestions(false)
+        break
+    }
+  }
+
+  return (
+    <div className="relative flex-1">
+      <div className="relative">
+        <Icon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+        <Input
+          type="text"
+          placeholder={placeholder}
+          value={query}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-label={placeholder}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-activedescendant={showSuggestions && suggestions.length > 0 ? optionId(highlighted) : undefined}
+          className="pl-10 pr-4 py-3 bg-white/90 backdrop-blur-sm border-slate-200 focus:border-blue-500"
+        />
+      </div>
+      <div role="status" className="sr-only">
+        {showSuggestions && suggestions.length > 0 ? t('search.count', { count: suggestions.length }) : ''}
+      </div>
+
+      {/* Search Suggestions */}
+      {showSuggestions && (
+        <Card className="absolute top-full mt-1 w-full z-20 bg-white/95 backdrop-blur-sm border-slate-200">
+          <CardContent className="p-2">
+            {/* Category Filter */}
+            <div className="flex flex-wrap gap-1 px-1 pb-2">
+              {categories.map(option => (
+                <button
+                  key={option}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => toggleCategory(option)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    category === option
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {t(`category.${option}`)}
+                </button>
+              ))}
+            </div>
+
+            {suggestions.length === 0 && (
+              <div className="px-3 py-2 text-sm text-slate-500">{t('search.noMatches')}</div>
+            )}
+            <div id={listId} role="listbox" aria-label={placeholder}>
+              {suggestions.map((place, i) => (
+                <div key={getPlaceKey(place)} role="none">
+                  {(i === 0 || suggestions[i - 1].kind !== place.kind) && (
+                    <div aria-hidden="true" className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-slate-400">
+                      {place.kind === 'room' ? t('search.rooms') : t(`category.${place.kind}`)}
+                    </div>
+                  )}
+                  <button
+                    id={optionId(i)}
+                    role="option"
+                    aria-selected={i === highlighted}
+                    tabIndex={-1}
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => handleSelect(place)}
+                    onMouseEnter={() => setHighlighted(i)}
+                    className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                      i === highlighted ? 'bg-slate-100' : 'hover:bg-slate-100'
+                    }`}
+                  >
+                    {'entry' in place ? (
+                      <>
+                        <div className="font-medium text-slate-900">{place.entry.name}</div>
+                        <div className="text-sm text-slate-600">
+                          {place.entry.title && `${place.entry.title} • `}{place.room.room.name} ({place.room.id})
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="font-medium text-slate-900">{place.room.id}</div>
+                        <div className="text-sm text-slate-600">
+                          {place.room.room.name} • {t('floor.number', { floor: place.room.floor })}
+                        </div>
+                      </>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
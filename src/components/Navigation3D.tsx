@@ -1,28 +1,57 @@
-import React, { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo, ComponentRef, ComponentType, ChangeEvent } from 'react'
+import { createPortal } from 'react-dom'
 import { Canvas, useFrame } from '@react-three/fiber'
 import { OrbitControls, Text, Box, Line } from '@react-three/drei'
-import { Search, Navigation, MapPin, Layers, ArrowRight, Clock, Route } from 'lucide-react'
+import { Search, Navigation, MapPin, Clock, Route, Accessibility, AlertTriangle, Loader2, CircleDot, LocateFixed, ArrowUpDown, ListOrdered, Construction, KeyRound, Toilet, Droplet, Printer, Microwave, DoorOpen, CalendarDays, QrCode as QrCodeIcon, Download, WifiOff, RefreshCw, Languages, Volume2, VolumeX, Repeat, Settings2, ListTree } from 'lucide-react'
 import { Button } from './ui/button'
-import { Input } from './ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
-import { findPath, getPathNodes, navigationNodes, PathStep } from '../utils/pathfinding'
+import { searchRoute, findPath, findAlternativeRoutes, findNearest, buildSteps, getPathNodes, getRouteDistance, estimateMinutes, getHeadingAt, routingProfiles, PathStep, RouteOptions, RouteResult, RoutingProfile } from '../utils/pathfinding'
+import { describeRoute, describeStep, explainRoute } from '../utils/instructions'
+import { I18n, Locale, MessageKey, createI18n, detectLocale, languageTags, localeNames, saveLocale } from '../utils/i18n'
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE, SpeechQueue, VoiceOption, VoiceSettings, createBrowserSpeechEngine, getVoicesFor, loadVoiceSettings, saveVoiceSettings } from '../utils/speech'
+import { planItinerary } from '../utils/itinerary'
+import { AmenityType, Building, PathNode, RoomNode, amenityTypes, getDisplayName, getFloorNodes, hasAmenity, isRoomNode } from '../utils/building'
+import { loadMap, loadClosures, loadDirectory, MapLoadError, DEFAULT_MAP_URL, DEFAULT_CLOSURES_URL, DEFAULT_DIRECTORY_URL } from '../utils/mapLoader'
+import { applyAppUpdate, subscribeOfflineEvents } from '../utils/serviceWorker'
+import { DirectoryEntry, getRoomEntries } from '../utils/directory'
+import { RouteLink, formatRouteLink, getRouteUrl, parseRouteLink } from '../utils/routeLink'
+import { fitsQr, renderQrSvg } from '../utils/qrCode'
+import { ClassEvent, NextClass, TimetableError, getGapMinutes, getNextClass, parseTimetable } from '../utils/timetable'
+import { Closure, applyClosures, describeClosure, findBlockingClosures, getActiveClosures, getClosedEdges, getClosedNodes } from '../utils/closures'
+import { UserRole, canAccess, describeOpeningStatus, userRoles } from '../utils/access'
 import { AROverlay } from './AROverlay'
+import { TurnIcon } from './TurnIcon'
+import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { LocationSearch } from './LocationSearch'
+import { QrCode } from './QrCode'
+import { RouteSheetView } from './RouteSheetView'
+import { TextMapView } from './TextMapView'
 import * as THREE from 'three'
 
-// Sample room data for St. Lawrence College
-const rooms = [
-  { id: 'A233', name: 'Computer Lab A233', floor: 2, position: [2, 2, 0], type: 'lab' },
-  { id: '11840', name: 'Lecture Hall 11840', floor: 1, position: [-2, 1, 2], type: 'classroom' },
-  { id: 'B101', name: 'Biology Lab B101', floor: 1, position: [0, 1, -2], type: 'lab' },
-  { id: 'C205', name: 'Chemistry Lab C205', floor: 2, position: [-1, 2, 1], type: 'lab' },
-  { id: 'CAFE', name: 'Cafeteria', floor: 1, position: [3, 1, 0], type: 'dining' },
-  { id: 'LIB', name: 'Library', floor: 2, position: [0, 2, 3], type: 'library' }
-]
+// Line colours for the routes offered in the route picker, best route first
+const ROUTE_COLORS = ['#3b82f6', '#f97316', '#a855f7']
+
+// Colour of closed nodes and edges
+const CLOSED_COLOR = '#dc2626'
+
+// Quick-action chips under the search bar
+const amenityIcons: Record<AmenityType, ComponentType<{ className?: string }>> = {
+  'washroom': Toilet,
+  'water-fountain': Droplet,
+  'printer': Printer,
+  'microwave': Microwave,
+  'accessible-exit': DoorOpen
+}
 
 // Animated path line component
-function PathLine({ points, animated = true }: { points: THREE.Vector3[], animated?: boolean }) {
-  const lineRef = useRef<any>()
+function PathLine({ points, animated = true, color = ROUTE_COLORS[0] }: {
+  points: THREE.Vector3[],
+  animated?: boolean,
+  color?: string
+}) {
+  const lineRef = useRef<ComponentRef<typeof Line>>(null)
   const [progress, setProgress] = useState(0)
   
   useFrame((state) => {
@@ -42,7 +71,7 @@ function PathLine({ points, animated = true }: { points: THREE.Vector3[], animat
     <Line
       ref={lineRef}
       points={visiblePoints}
-      color="#3b82f6"
+      color={color}
       lineWidth={4}
       dashed={false}
     />
@@ -50,8 +79,13 @@ function PathLine({ points, animated = true }: { points: THREE.Vector3[], animat
 }
 
 // 3D Room component
-function Room({ room, isDestination, isOnPath }: { room: any, isDestination: boolean, isOnPath: boolean }) {
-  const meshRef = useRef<any>()
+function Room({ room, isDestination, isOnPath, isClosed }: {
+  room: RoomNode,
+  isDestination: boolean,
+  isOnPath: boolean,
+  isClosed: boolean
+}) {
+  const meshRef = useRef<THREE.Mesh>(null)
   
   useFrame((state) => {
     if (isDestination && meshRef.current) {
@@ -59,7 +93,7 @@ function Room({ room, isDestination, isOnPath }: { room: any, isDestination: boo
     }
   })
 
-  const color = isDestination ? '#3b82f6' : isOnPath ? '#10b981' : '#64748b'
+  const color = isClosed ? CLOSED_COLOR : isDestination ? '#3b82f6' : isOnPath ? '#10b981' : '#64748b'
   
   return (
     <group position={room.position}>
@@ -80,8 +114,8 @@ function Room({ room, isDestination, isOnPath }: { room: any, isDestination: boo
 }
 
 // Navigation node component (hallways, stairs, elevators)
-function NavNode({ node, isOnPath }: { node: any, isOnPath: boolean }) {
-  const meshRef = useRef<any>()
+function NavNode({ node, isOnPath, isClosed, i18n }: { node: PathNode, isOnPath: boolean, isClosed: boolean, i18n: I18n }) {
+  const meshRef = useRef<THREE.Mesh<THREE.BoxGeometry, THREE.MeshStandardMaterial>>(null)
   
   useFrame((state) => {
     if (isOnPath && meshRef.current) {
@@ -95,6 +129,9 @@ function NavNode({ node, isOnPath }: { node: any, isOnPath: boolean }) {
   if (node.type === 'stairs') {
     color = '#f59e0b'
     size = [0.4, 0.2, 0.4]
+  } else if (node.type === 'escalator') {
+    color = '#14b8a6'
+    size = [0.4, 0.2, 0.4]
   } else if (node.type === 'elevator') {
     color = '#8b5cf6'
     size = [0.4, 0.3, 0.4]
@@ -105,6 +142,8 @@ function NavNode({ node, isOnPath }: { node: any, isOnPath: boolean }) {
   
   if (isOnPath) {
     color = '#10b981'
+  } else if (isClosed) {
+    color = CLOSED_COLOR
   }
   
   return (
@@ -124,7 +163,7 @@ function NavNode({ node, isOnPath }: { node: any, isOnPath: boolean }) {
           anchorX="center"
           anchorY="middle"
         >
-          {node.type.toUpperCase()}
+          {i18n.t(`nodeLabel.${node.type}`).toLocaleUpperCase(i18n.locale)}
         </Text>
       )}
     </group>
@@ -132,15 +171,19 @@ function NavNode({ node, isOnPath }: { node: any, isOnPath: boolean }) {
 }
 
 // 3D Floor component
-function Floor({ level, rooms, destination, currentFloor, pathNodes }: { 
+function Floor({ map, level, name, destination, currentFloor, pathNodes, closedNodes, i18n }: { 
+  map: Building,
   level: number, 
-  rooms: any[], 
+  name: string,
   destination: string | null, 
   currentFloor: number,
-  pathNodes: string[]
+  pathNodes: string[],
+  closedNodes: Set<string>,
+  i18n: I18n
 }) {
-  const floorRooms = rooms.filter(room => room.floor === level)
-  const floorNavNodes = Object.values(navigationNodes).filter(node => node.floor === level)
+  const floorNodes = getFloorNodes(map, level)
+  const floorRooms = floorNodes.filter(isRoomNode)
+  const floorNavNodes = floorNodes.filter(node => !isRoomNode(node))
   const opacity = level === currentFloor ? 1 : 0.3
   
   return (
@@ -158,6 +201,7 @@ function Floor({ level, rooms, destination, currentFloor, pathNodes }: {
           room={room}
           isDestination={room.id === destination}
           isOnPath={pathNodes.includes(room.id)}
+          isClosed={closedNodes.has(room.id)}
         />
       ))}
       
@@ -167,6 +211,8 @@ function Floor({ level, rooms, destination, currentFloor, pathNodes }: {
           key={node.id}
           node={node}
           isOnPath={pathNodes.includes(node.id)}
+          isClosed={closedNodes.has(node.id)}
+          i18n={i18n}
         />
       ))}
       
@@ -178,30 +224,70 @@ function Floor({ level, rooms, destination, currentFloor, pathNodes }: {
         anchorX="left"
         anchorY="middle"
       >
-        Floor {level}
+        {name}
+      </Text>
+    </group>
+  )
+}
+
+// Numbered marker above a stop of a multi-stop trip
+function WaypointMarker({ position, number }: { position: [number, number, number], number: number }) {
+  return (
+    <group position={position}>
+      <mesh position={[0, 0.6, 0]}>
+        <sphereGeometry args={[0.15, 16, 16]} />
+        <meshStandardMaterial color="#f97316" />
+      </mesh>
+      <Text
+        position={[0, 0.9, 0]}
+        fontSize={0.15}
+        color="#9a3412"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {number}
       </Text>
     </group>
   )
 }
 
+// Closed edge, drawn as a red dashed segment
+function BlockedSegment({ from, to }: { from: PathNode, to: PathNode }) {
+  return (
+    <Line
+      points={[from.position, to.position]}
+      color={CLOSED_COLOR}
+      lineWidth={3}
+      dashed={true}
+      dashSize={0.1}
+      gapSize={0.08}
+    />
+  )
+}
+
+// Line points for a route, including hallway nodes merged into a step
+function getPathPoints(map: Building, steps: PathStep[]): THREE.Vector3[] {
+  if (steps.length === 0) return []
+  
+  return [steps[0].from, ...steps.flatMap(step => [...step.via, step.to])].map(id => {
+    const node = map.nodes[id]
+    return new THREE.Vector3(node.position[0], node.position[1], node.position[2])
+  })
+}
+
 // 3D Scene component
-function Scene3D({ destination, currentFloor, pathSteps }: { 
+function Scene3D({ map, destination, currentFloor, pathSteps, routeChoices, closures, i18n }: { 
+  map: Building,
   destination: string | null, 
   currentFloor: number,
-  pathSteps: PathStep[]
+  pathSteps: PathStep[],
+  routeChoices: PathStep[][],
+  closures: Closure[],
+  i18n: I18n
 }) {
   const pathNodes = getPathNodes(pathSteps)
-  
-  // Create path line points
-  const pathPoints = pathSteps.map(step => {
-    const node = navigationNodes[step.to]
-    return new THREE.Vector3(node.position[0], node.position[1], node.position[2])
-  })
-  
-  if (pathSteps.length > 0) {
-    const startNode = navigationNodes[pathSteps[0].from]
-    pathPoints.unshift(new THREE.Vector3(startNode.position[0], startNode.position[1], startNode.position[2]))
-  }
+  const pathPoints = getPathPoints(map, pathSteps)
+  const closedNodes = getClosedNodes(closures)
   
   return (
     <>
@@ -214,14 +300,32 @@ function Scene3D({ destination, currentFloor, pathSteps }: {
         <PathLine points={pathPoints} animated={true} />
       )}
       
-      {[1, 2, 3].map(floor => (
+      {/* Routes on offer, drawn in reverse so the best one stays on top */}
+      {routeChoices.map((steps, index) => ({ steps, index })).reverse().map(({ steps, index }) => (
+        <PathLine key={index} points={getPathPoints(map, steps)} animated={false} color={ROUTE_COLORS[index]} />
+      ))}
+      
+      {/* Closed edges */}
+      {getClosedEdges(map, closures).map(([from, to]) => (
+        <BlockedSegment key={`${from}|${to}`} from={map.nodes[from]} to={map.nodes[to]} />
+      ))}
+      
+      {/* Trip stop markers */}
+      {pathSteps.filter(step => step.waypoint).map(step => (
+        <WaypointMarker key={step.waypoint} position={map.nodes[step.to].position} number={step.waypoint!} />
+      ))}
+      
+      {map.floors.map(floor => (
         <Floor
-          key={floor}
-          level={floor}
-          rooms={rooms}
+          key={floor.level}
+          map={map}
+          level={floor.level}
+          name={floor.name}
           destination={destination}
           currentFloor={currentFloor}
           pathNodes={pathNodes}
+          closedNodes={closedNodes}
+          i18n={i18n}
         />
       ))}
       
@@ -237,124 +341,879 @@ function Scene3D({ destination, currentFloor, pathSteps }: {
   )
 }
 
+// Why a route has no steps, kept as data so it is worded in the language on screen
+type RouteNotice =
+  | { status: 'unknown-node', unknownIds: string[] }
+  | { status: 'unreachable', origin: string, destination: string, nearest: string, profile: RoutingProfile }
+  | { status: 'arrived', destination: string }
+
+// A closure the route had to avoid, and the route that avoided it
+interface RouteAlert {
+  closure: Closure
+  at: Date
+  detour: PathStep[]
+}
+
+function getRouteNotice(route: RouteResult, origin: string, destination: string, profile: RoutingProfile): RouteNotice {
+  switch (route.status) {
+    case 'unknown-node':
+      return { status: 'unknown-node', unknownIds: route.unknownIds }
+    case 'unreachable':
+      return { status: 'unreachable', origin, destination, nearest: route.nearest, profile }
+    default:
+      return { status: 'arrived', destination }
+  }
+}
+
+// Explain a route that produced no steps, so the panel is never blank
+function describeRouteNotice(notice: RouteNotice, { t }: I18n): string {
+  switch (notice.status) {
+    case 'unknown-node':
+      return t('notice.unknownNode', { ids: notice.unknownIds.join(', ') })
+    case 'unreachable': {
+      const { origin, destination, nearest, profile } = notice
+      return profile === 'shortest'
+        ? t('notice.unreachable', { origin, destination, nearest })
+        : t('notice.unreachableWith', { origin, destination, nearest, profile: t(`profile.${profile}`) })
+    }
+    case 'arrived':
+      return t('notice.arrived', { destination: notice.destination })
+  }
+}
+
+function describeAlert(map: Building, { closure, at, detour }: RouteAlert, i18n: I18n): string {
+  const text = describeClosure(map, closure, at, i18n)
+  if (detour.length === 0) return text
+  
+  return detour.some(step => step.floorChange)
+    ? i18n.t('closure.reroutedVia', { closure: text, route: describeRoute(map, detour, i18n) })
+    : i18n.t('closure.reroutedAround', { closure: text })
+}
+
+// Closures the route had to avoid
+function ClosureAlerts({ map, alerts, i18n }: { map: Building, alerts: RouteAlert[], i18n: I18n }) {
+  if (alerts.length === 0) return null
+  
+  return (
+    <div className="space-y-1">
+      {alerts.map(alert => (
+        <div key={alert.closure.id} className="flex items-start space-x-1 text-xs text-red-700">
+          <Construction className="h-3 w-3 flex-shrink-0 mt-0.5" />
+          <span>{describeAlert(map, alert, i18n)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // Directions panel component
-function DirectionsPanel({ pathSteps, currentStep }: { pathSteps: PathStep[], currentStep: number }) {
-  if (pathSteps.length === 0) return null
+function DirectionsPanel({ map, pathSteps, currentStep, notice, alerts, profile, i18n }: {
+  map: Building,
+  pathSteps: PathStep[],
+  currentStep: number,
+  notice: RouteNotice | null,
+  alerts: RouteAlert[],
+  profile: RoutingProfile,
+  i18n: I18n
+}) {
+  const { t, formatNumber } = i18n
+  const currentItem = useRef<HTMLLIElement>(null)
+  
+  // Keep the step being walked in view as the walker moves through the list
+  useEffect(() => {
+    currentItem.current?.scrollIntoView({ block: 'nearest' })
+  }, [currentStep, pathSteps])
+  
+  if (pathSteps.length === 0) {
+    return (
+      <Card className="bg-white/95 backdrop-blur-sm border-amber-200">
+        <CardContent className="p-4 flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="space-y-2">
+            <div className="text-sm text-slate-700">
+              {notice && describeRouteNotice(notice, i18n)}
+            </div>
+            <ClosureAlerts map={map} alerts={alerts} i18n={i18n} />
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
   
-  const totalDistance = pathSteps.reduce((sum, step) => sum + step.distance, 0)
-  const estimatedTime = Math.ceil(totalDistance * 0.5) // Rough estimate: 0.5 min per unit
+  const totalDistance = getRouteDistance(pathSteps)
+  const estimatedTime = estimateMinutes(pathSteps)
   
   return (
     <Card className="bg-white/95 backdrop-blur-sm border-slate-200 max-h-80 overflow-y-auto">
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center space-x-2 text-lg">
           <Route className="h-5 w-5 text-blue-600" />
-          <span>Turn-by-Turn Directions</span>
+          <span>{t('directions.title')}</span>
         </CardTitle>
         <div className="flex items-center space-x-4 text-sm text-slate-600">
           <div className="flex items-center space-x-1">
             <MapPin className="h-4 w-4" />
-            <span>{totalDistance.toFixed(1)} units</span>
+            <span>{t('distance.meters', { distance: formatNumber(totalDistance, 1) })}</span>
           </div>
           <div className="flex items-center space-x-1">
             <Clock className="h-4 w-4" />
-            <span>~{estimatedTime} min</span>
+            <span>{t('time.minutes', { minutes: estimatedTime })}</span>
           </div>
         </div>
+        <p className="text-xs text-slate-500">{explainRoute(map, pathSteps, profile, i18n)}</p>
+        <ClosureAlerts map={map} alerts={alerts} i18n={i18n} />
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2">
+          {pathSteps.map((step, index) => (
+            <li
+              key={index}
+              ref={index === currentStep ? currentItem : undefined}
+              aria-current={index === currentStep ? 'step' : undefined}
+              className={`flex items-start space-x-3 p-2 rounded-md transition-colors ${
+                index === currentStep ? 'bg-blue-50 border border-blue-200' : 'hover:bg-slate-50'
+              }`}
+            >
+              <div className="flex-shrink-0 mt-1">
+                {index === currentStep ? (
+                  <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse" />
+                ) : (
+                  <div className="w-2 h-2 bg-slate-300 rounded-full" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-slate-900">
+                  {describeStep(map, step, i18n)}
+                </div>
+                <div className="flex items-center space-x-2 mt-1">
+                  <Badge variant="outline" className="text-xs">
+                    {t('floor.number', { floor: step.floor })}
+                  </Badge>
+                  {step.waypoint && (
+                    <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800">
+                      {t('trip.stop', { stop: step.waypoint })}
+                    </Badge>
+                  )}
+                  {step.floorChange && (
+                    <Badge 
+                      variant="secondary" 
+                      className={`text-xs ${
+                        step.floorChange === 'up' ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                      }`}
+                    >
+                      {step.floorChange === 'up' ? '↑' : '↓'} {t('directions.floorChange')}
+                    </Badge>
+                  )}
+                  <span className="text-xs text-slate-500">
+                    {t('distance.meters', { distance: formatNumber(step.distance, 1) })}
+                  </span>
+                </div>
+              </div>
+              <TurnIcon step={step} className="h-4 w-4 text-slate-400 flex-shrink-0 mt-0.5" />
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
+
+// What to say when a step starts, warning ahead of a floor change so the
+// walker can look out for the stairs or elevator
+function getStepAnnouncements(map: Building, steps: PathStep[], index: number, i18n: I18n): string[] {
+  const announcements = [describeStep(map, steps[index], i18n)]
+  const next = steps[index + 1]
+  if (next?.floorChange) {
+    announcements.push(i18n.t('voice.floorChangeAhead', { instruction: describeStep(map, next, i18n) }))
+  }
+  return announcements
+}
+
+// Mute, repeat and voice settings for spoken directions
+function VoiceControls({ settings, voices, i18n, onChange, onRepeat }: {
+  settings: VoiceSettings,
+  voices: VoiceOption[],
+  i18n: I18n,
+  onChange: (settings: VoiceSettings) => void,
+  onRepeat: () => void
+}) {
+  const { t, formatNumber, locale } = i18n
+  const [showSettings, setShowSettings] = useState(false)
+
+  return (
+    <div className="mt-2 rounded-md border border-slate-200 bg-white/95 p-2 space-y-2">
+      <div className="flex space-x-2">
+        <Button
+          variant={settings.muted ? 'outline' : 'default'}
+          size="sm"
+          onClick={() => onChange({ ...settings, muted: !settings.muted })}
+          aria-pressed={!settings.muted}
+          className="flex-1"
+        >
+          {settings.muted ? <VolumeX className="h-4 w-4 mr-1" /> : <Volume2 className="h-4 w-4 mr-1" />}
+          {settings.muted ? t('voice.unmute') : t('voice.mute')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRepeat} disabled={settings.muted} title={t('voice.repeat')}>
+          <Repeat className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowSettings(!showSettings)}
+          aria-expanded={showSettings}
+          title={t('voice.settings')}
+        >
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {showSettings && (
+        <div className="space-y-3 px-1 pb-1">
+          <label className="block space-y-2 text-xs text-slate-600">
+            <span>{t('voice.rate', { rate: formatNumber(settings.rate, 1) })}</span>
+            <Slider
+              min={MIN_SPEECH_RATE}
+              max={MAX_SPEECH_RATE}
+              step={0.1}
+              value={[settings.rate]}
+              onValueChange={([rate]) => onChange({ ...settings, rate })}
+            />
+          </label>
+          <label className="block space-y-1 text-xs text-slate-600">
+            <span>{t('voice.voice')}</span>
+            <select
+              value={settings.voices[locale] ?? ''}
+              onChange={event => onChange({
+                ...settings,
+                voices: { ...settings.voices, [locale]: event.target.value || undefined }
+              })}
+              className="w-full rounded-md border border-slate-200 bg-white px-2 py-1 text-sm text-slate-900"
+            >
+              <option value="">{t('voice.default')}</option>
+              {voices.map(voice => (
+                <option key={voice.id} value={voice.id}>{voice.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Alternative routes to the destination, chosen from before directions start
+function RoutePicker({ map, choices, alerts, i18n, onChoose }: {
+  map: Building,
+  choices: PathStep[][],
+  alerts: RouteAlert[],
+  i18n: I18n,
+  onChoose: (steps: PathStep[]) => void
+}) {
+  const { t, formatNumber } = i18n
+  
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-slate-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <Route className="h-5 w-5 text-blue-600" />
+          <span>{t('routes.title')}</span>
+        </CardTitle>
+        <ClosureAlerts map={map} alerts={alerts} i18n={i18n} />
       </CardHeader>
       <CardContent className="space-y-2">
-        {pathSteps.map((step, index) => (
-          <div
+        {choices.map((steps, index) => (
+          <button
             key={index}
-            className={`flex items-start space-x-3 p-2 rounded-md transition-colors ${
-              index === currentStep ? 'bg-blue-50 border border-blue-200' : 'hover:bg-slate-50'
-            }`}
+            onClick={() => onChoose(steps)}
+            className="w-full flex items-center space-x-3 p-2 rounded-md border border-slate-200 text-left hover:bg-slate-50"
           >
-            <div className="flex-shrink-0 mt-1">
-              {index === currentStep ? (
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse" />
-              ) : (
-                <div className="w-2 h-2 bg-slate-300 rounded-full" />
-              )}
-            </div>
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: ROUTE_COLORS[index] }} />
             <div className="flex-1 min-w-0">
               <div className="text-sm font-medium text-slate-900">
-                {step.instruction}
+                {t('routes.option', { route: describeRoute(map, steps, i18n), minutes: estimateMinutes(steps) })}
               </div>
-              <div className="flex items-center space-x-2 mt-1">
-                <Badge variant="outline" className="text-xs">
-                  Floor {step.floor}
-                </Badge>
-                {step.floorChange && (
-                  <Badge 
-                    variant="secondary" 
-                    className={`text-xs ${
-                      step.floorChange === 'up' ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
-                    }`}
-                  >
-                    {step.floorChange === 'up' ? '↑' : '↓'} Floor Change
-                  </Badge>
-                )}
-                <span className="text-xs text-slate-500">
-                  {step.distance.toFixed(1)} units
-                </span>
+              <div className="text-xs text-slate-500">
+                {t('routes.details', {
+                  distance: t('distance.meters', { distance: formatNumber(getRouteDistance(steps), 1) }),
+                  steps: steps.length
+                })}
               </div>
             </div>
-            <ArrowRight className="h-4 w-4 text-slate-400 flex-shrink-0 mt-0.5" />
-          </div>
+            {index === 0 && (
+              <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-800">
+                {t('routes.best')}
+              </Badge>
+            )}
+          </button>
         ))}
       </CardContent>
     </Card>
   )
 }
 
-export default function Navigation3D() {
-  const [searchQuery, setSearchQuery] = useState('')
-  const [destination, setDestination] = useState<string | null>(null)
-  const [currentFloor, setCurrentFloor] = useState(1)
-  const [filteredRooms, setFilteredRooms] = useState<any[]>([])
-  const [showSuggestions, setShowSuggestions] = useState(false)
+// QR code for the route or room on screen, with the SVG to download for
+// announcements and signs
+function ShareCard({ map, origin, destination, profile, i18n }: {
+  map: Building,
+  origin: string | null,
+  destination: string,
+  profile: RoutingProfile,
+  i18n: I18n
+}) {
+  const { t } = i18n
+  const url = getRouteUrl({ from: origin ?? undefined, to: destination, mode: profile })
+  const fits = fitsQr(url)
+  const label = origin
+    ? t('share.routeLabel', { from: getDisplayName(map, origin, i18n), to: getDisplayName(map, destination, i18n) })
+    : getDisplayName(map, destination, i18n)
+  
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-slate-200">
+      <CardContent className="p-3 space-y-2 w-56">
+        <div className="text-sm font-medium text-slate-900">{origin ? t('share.route') : t('share.room')}</div>
+        <QrCode value={url} label={t('share.qrLabel', { label })} className="w-full h-auto" />
+        {fits && <div className="text-xs text-slate-500 break-all">{url}</div>}
+        <div className="flex items-center justify-between">
+          {fits && (
+            <Button asChild variant="outline" size="sm" className="h-7 px-2 text-xs">
+              <a href={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderQrSvg(url))}`} download={`${destination}-qr.svg`}>
+                <Download className="h-3 w-3 mr-1" />
+                SVG
+              </a>
+            </Button>
+          )}
+          <a href="?posters" target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline">
+            {t('share.posters')}
+          </a>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Walk to the next class: where from, how long, and how long there is
+interface ClassWalk {
+  from: string
+  minutes: number | null
+  available: number
+}
+
+// "Mon 10:25 AM"
+function formatClassTime(date: Date, i18n: I18n): string {
+  return i18n.formatDate(date, { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+}
+
+// Next class from the imported timetable, with a warning when the walk is
+// longer than the time before it starts
+function NextClassCard({ map, nextClass, walk, i18n, onRoute, onClear }: {
+  map: Building,
+  nextClass: NextClass | null,
+  walk: ClassWalk | null,
+  i18n: I18n,
+  onRoute: () => void,
+  onClear: () => void
+}) {
+  const { t } = i18n
+  const next = nextClass?.next
+  const previous = nextClass?.previous
+  
+  return (
+    <Card className="mt-2 bg-white/95 backdrop-blur-sm border-slate-200">
+      <CardContent className="p-3 space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-900">{t('timetable.nextClass')}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClear}
+            title={t('timetable.remove')}
+            className="h-6 px-2 text-slate-400 hover:text-slate-600"
+          >
+            ×
+          </Button>
+        </div>
+        {!next ? (
+          <p className="text-xs text-slate-500">{t('timetable.noMore')}</p>
+        ) : (
+          <>
+            <div className="text-sm text-slate-700">{next.summary}</div>
+            <div className="text-xs text-slate-500">
+              {formatClassTime(next.start, i18n)} • {next.roomId
+                ? `${getDisplayName(map, next.roomId, i18n)} (${next.roomId})`
+                : next.location || t('timetable.noLocation')}
+            </div>
+            {!next.roomId && next.location && (
+              <p className="text-xs text-amber-700">{t('timetable.notOnMap')}</p>
+            )}
+            {walk && (
+              <div className="text-xs text-slate-500">
+                {t('timetable.from', {
+                  place: previous?.roomId ? `${previous.summary} (${walk.from})` : getDisplayName(map, walk.from, i18n)
+                })}
+                {walk.minutes !== null && ` • ${t(previous ? 'timetable.walkBetween' : 'timetable.walkUntil', {
+                  minutes: walk.minutes,
+                  available: walk.available
+                })}`}
+              </div>
+            )}
+            {walk && walk.minutes !== null && walk.minutes > walk.available && (
+              <div className="flex items-start space-x-2 p-2 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                <span>
+                  {t('timetable.late', { minutes: walk.minutes, available: walk.available })}
+                </span>
+              </div>
+            )}
+            <Button size="sm" onClick={onRoute} disabled={!next.roomId} className="h-7 px-2 text-xs">
+              <Navigation className="h-3 w-3 mr-1" />
+              {t('timetable.route')}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Main navigation view for a loaded building map
+function NavigationView({ map, closures, directory, i18n, onLocaleChange }: {
+  map: Building,
+  closures: Closure[],
+  directory: DirectoryEntry[],
+  i18n: I18n,
+  onLocaleChange: (locale: Locale) => void
+}) {
+  const { t } = i18n
+  const otherLocale: Locale = i18n.locale === 'en' ? 'fr' : 'en'
+  const defaultStart = map.metadata.defaultStart
+  // Route the page was opened with, e.g. from a link in a course announcement
+  const [initialLink] = useState(() => parseRouteLink(window.location.search, map))
+  const [searchQuery, setSearchQuery] = useState(initialLink.to ?? '')
+  const [originQuery, setOriginQuery] = useState(initialLink.from && initialLink.from !== defaultStart ? initialLink.from : '')
+  const [origin, setOrigin] = useState(initialLink.from ?? defaultStart)
+  const [destination, setDestination] = useState<string | null>(initialLink.to ?? null)
+  // Person, department or service the destination was picked by
+  const [selectedEntry, setSelectedEntry] = useState<DirectoryEntry | null>(null)
+  const [currentFloor, setCurrentFloor] = useState(
+    initialLink.floor ?? (initialLink.to ? map.nodes[initialLink.to].floor : 1)
+  )
   const [pathSteps, setPathSteps] = useState<PathStep[]>([])
+  // Alternative routes waiting for the user to pick one; empty once a route is shown
+  const [routeChoices, setRouteChoices] = useState<PathStep[][]>([])
+  const [routeNotice, setRouteNotice] = useState<RouteNotice | null>(null)
+  // Closures that changed the current route
+  const [routeAlerts, setRouteAlerts] = useState<RouteAlert[]>([])
   const [currentStep, setCurrentStep] = useState(0)
   const [showDirections, setShowDirections] = useState(false)
   const [isARActive, setIsARActive] = useState(false)
+  // Text stand-in for the 3D map, for screen reader and keyboard users
+  const [textView, setTextView] = useState(false)
+  const [routingProfile, setRoutingProfile] = useState<RoutingProfile>(initialLink.mode ?? 'shortest')
+  const [userRole, setUserRole] = useState<UserRole>('visitor')
+  const [tripMode, setTripMode] = useState(false)
+  const [tripStops, setTripStops] = useState<string[]>([])
+  const [optimizeTrip, setOptimizeTrip] = useState(true)
+  // Imported class meetings; kept in memory only
+  const [timetable, setTimetable] = useState<ClassEvent[]>([])
+  const [timetableError, setTimetableError] = useState<MessageKey | null>(null)
+  const [showShare, setShowShare] = useState(false)
+  const [showRouteSheet, setShowRouteSheet] = useState(false)
+  // Spoken directions, where the browser can speak
+  const [speech] = useState(() => {
+    const engine = createBrowserSpeechEngine()
+    return engine && { engine, queue: new SpeechQueue(engine) }
+  })
+  const [voiceSettings, setVoiceSettings] = useState(loadVoiceSettings)
+  const [voices, setVoices] = useState<VoiceOption[]>(() => speech?.engine.getVoices() ?? [])
+  const timetableInput = useRef<HTMLInputElement>(null)
+  // Route picker or directions, focused when a route comes up in the text view
+  const routePanel = useRef<HTMLDivElement>(null)
+  const focusRoutePanel = useRef(false)
+  const prevButton = useRef<HTMLButtonElement>(null)
+  const nextButton = useRef<HTMLButtonElement>(null)
+  // Destination in the address bar, to tell new destinations from other changes
+  const linkedDestination = useRef(destination)
+  // Query string last written to the address bar; Back and Forward change it
+  const linkedSearch = useRef(window.location.search)
+  // Results of the last amenity chip pressed, with the profile they were found under
+  const [nearby, setNearby] = useState<{
+    amenity: AmenityType,
+    profile: RoutingProfile,
+    results: { id: string, steps: PathStep[] }[]
+  } | null>(null)
+  const destinationNode = destination ? map.nodes[destination] : undefined
+  const destinationEntry = selectedEntry?.roomId === destination ? selectedEntry : null
+  const destinationEntries = destination ? getRoomEntries(directory, destination) : []
+  const now = new Date()
+  const activeClosures = getActiveClosures(closures, now)
+  const destinationStatus = destinationNode?.hours ? describeOpeningStatus(destinationNode.hours, now, i18n) : null
+  // Where the walker is now, known once they are following a route
+  const currentLocation = pathSteps[currentStep]?.from
+  const nextClass = timetable.length > 0 ? getNextClass(timetable, now) : null
+  // Route progress for screen readers, read out whenever it changes
+  let routeStatus = ''
+  if (routeChoices.length > 0) {
+    routeStatus = t('a11y.routeChoices', { count: routeChoices.length })
+  } else if (showDirections && destination && pathSteps[currentStep]) {
+    routeStatus = t('a11y.step', {
+      step: currentStep + 1,
+      count: pathSteps.length,
+      instruction: describeStep(map, pathSteps[currentStep], i18n)
+    })
+  } else if (showDirections && routeNotice) {
+    routeStatus = describeRouteNotice(routeNotice, i18n)
+  }
 
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = rooms.filter(room =>
-        room.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        room.name.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-      setFilteredRooms(filtered)
-      setShowSuggestions(true)
-    } else {
-      setFilteredRooms([])
-      setShowSuggestions(false)
-    }
-  }, [searchQuery])
+  // Search box text for a location; the default start shows the placeholder instead
+  const queryFor = (nodeId: string) => nodeId === defaultStart ? '' : nodeId
 
-  const handleRoomSelect = (room: any) => {
-    setDestination(room.id)
-    setCurrentFloor(room.floor)
-    setSearchQuery(room.id)
-    setShowSuggestions(false)
-    
-    // Calculate path from entrance to destination
-    const steps = findPath('ENTRANCE', room.id)
+  const showRoute = (steps: PathStep[], notice: RouteNotice | null) => {
+    focusRoutePanel.current = true
     setPathSteps(steps)
+    setRouteChoices([])
+    setRouteNotice(notice)
     setCurrentStep(0)
     setShowDirections(true)
   }
 
+  // Closures and opening hours are looked up each time a route is planned, so
+  // changes during a session apply from the next route on
+  const getRoutingContext = (profile: RoutingProfile, role: UserRole) => {
+    const now = new Date()
+    const active = getActiveClosures(closures, now)
+    const options: RouteOptions = { profile, role, departure: now }
+    return { now, active, options, routingMap: applyClosures(map, active) }
+  }
+
+  // Closures a route planned on the open building would have hit
+  const findDetours = (active: Closure[], now: Date, openSteps: PathStep[], steps: PathStep[]): RouteAlert[] =>
+    findBlockingClosures(active, openSteps).map(closure => ({ closure, at: now, detour: steps }))
+
+  // Calculate path between two nodes using the chosen profile, offering
+  // alternatives to pick from when there is more than one sensible route
+  const calculateRoute = (fromId: string, toId: string, profile: RoutingProfile, role: UserRole = userRole) => {
+    const { now, active, options, routingMap } = getRoutingContext(profile, role)
+    const result = searchRoute(routingMap, fromId, toId, options)
+    const steps = result.status === 'ok' ? buildSteps(routingMap, result.nodes) : []
+    const openSteps = active.length > 0 ? findPath(map, fromId, toId, options) : []
+    setRouteAlerts(findDetours(active, now, openSteps, steps))
+    
+    if (steps.length === 0) {
+      showRoute([], getRouteNotice(result, fromId, toId, profile))
+      return
+    }
+    
+    const choices = findAlternativeRoutes(routingMap, fromId, toId, { ...options, count: ROUTE_COLORS.length })
+      .map(route => buildSteps(routingMap, route.nodes))
+    if (choices.length < 2) {
+      showRoute(steps, null)
+      return
+    }
+    
+    focusRoutePanel.current = true
+    setPathSteps([])
+    setRouteChoices(choices)
+    setRouteNotice(null)
+    setCurrentStep(0)
+    setShowDirections(false)
+  }
+
+  // Plan a route through every trip stop, keeping the order the planner chose
+  const planTrip = (
+    fromId: string,
+    stops: string[],
+    optimize: boolean,
+    profile: RoutingProfile,
+    role: UserRole = userRole
+  ) => {
+    setTripStops(stops)
+    if (stops.length === 0) {
+      setDestination(null)
+      setPathSteps([])
+      setRouteChoices([])
+      setShowDirections(false)
+      return
+    }
+    
+    const { now, active, options, routingMap } = getRoutingContext(profile, role)
+    const result = planItinerary(routingMap, fromId, stops, { ...options, optimizeOrder: optimize })
+    const openTrip = active.length > 0 ? planItinerary(map, fromId, stops, { ...options, optimizeOrder: optimize }) : null
+    setRouteAlerts(findDetours(
+      active,
+      now,
+      openTrip?.status === 'ok' ? openTrip.steps : [],
+      result.status === 'ok' ? result.steps : []
+    ))
+    
+    if (result.status === 'ok') {
+      const last = result.order[result.order.length - 1]
+      setTripStops(result.order)
+      setDestination(last)
+      showRoute(result.steps, result.steps.length === 0 ? { status: 'arrived', destination: last } : null)
+    } else {
+      setDestination(stops[stops.length - 1])
+      showRoute([], getRouteNotice(result.route, result.from, result.to, profile))
+    }
+  }
+
+  // Re-run the active trip or single route after the origin or profile changes
+  const recalculate = (fromId: string, profile: RoutingProfile, role: UserRole = userRole) => {
+    if (tripMode) {
+      planTrip(fromId, tripStops, optimizeTrip, profile, role)
+    } else if (destination) {
+      calculateRoute(fromId, destination, profile, role)
+    }
+  }
+
+  // Route to a room, amenity or directory entry's room, or add it as a trip stop
+  const handleSelect = (node: PathNode, profile: RoutingProfile = routingProfile, entry?: DirectoryEntry) => {
+    setNearby(null)
+    setRoutingProfile(profile)
+    
+    if (tripMode) {
+      setSearchQuery('')
+      if (!tripStops.includes(node.id)) {
+        planTrip(origin, [...tripStops, node.id], optimizeTrip, profile)
+      }
+      return
+    }
+    
+    setDestination(node.id)
+    setSelectedEntry(entry ?? null)
+    setCurrentFloor(node.floor)
+    setSearchQuery(entry?.name ?? (isRoomNode(node) ? node.id : getDisplayName(map, node.id, i18n)))
+    calculateRoute(origin, node.id, profile)
+  }
+
+  // Closest places with an amenity from the origin; pressing the same chip again hides them
+  const findAmenity = (amenity: AmenityType) => {
+    if (nearby?.amenity === amenity) {
+      setNearby(null)
+      return
+    }
+    
+    // An exit only counts as accessible if it can be reached step-free
+    const profile = amenity === 'accessible-exit' ? 'step-free' : routingProfile
+    const { options, routingMap } = getRoutingContext(profile, userRole)
+    const results = findNearest(routingMap, origin, node => hasAmenity(node, amenity), options)
+      .map(route => ({ id: route.nodes[route.nodes.length - 1], steps: buildSteps(routingMap, route.nodes) }))
+    setNearby({ amenity, profile, results })
+  }
+
+  const toggleTripMode = () => {
+    const enabled = !tripMode
+    setTripMode(enabled)
+    setSearchQuery('')
+    
+    if (enabled) {
+      setTripStops(destination ? [destination] : [])
+    } else if (destination) {
+      setSearchQuery(destination)
+      setTripStops([])
+      calculateRoute(origin, destination, routingProfile)
+    }
+  }
+
+  const changeOrigin = (nodeId: string) => {
+    setOrigin(nodeId)
+    setOriginQuery(queryFor(nodeId))
+    recalculate(nodeId, routingProfile)
+  }
+
+  // Clearing the From box falls back to the default start
+  const handleOriginQueryChange = (query: string) => {
+    setOriginQuery(query)
+    if (!query && origin !== defaultStart) {
+      changeOrigin(defaultStart)
+    }
+  }
+
+  // Walk to a class from the room of the class before it, or from the origin
+  // when it is the first class of the day
+  const planClassWalk = ({ next, previous }: NextClass): ClassWalk | null => {
+    if (!next.roomId) return null
+    
+    const from = previous?.roomId ?? origin
+    const { options, routingMap } = getRoutingContext(routingProfile, userRole)
+    const result = searchRoute(routingMap, from, next.roomId, options)
+    return {
+      from,
+      minutes: result.status === 'ok' ? estimateMinutes(buildSteps(routingMap, result.nodes)) : null,
+      available: getGapMinutes(previous?.end ?? now, next.start)
+    }
+  }
+  
+  const routeToClass = ({ next, previous }: NextClass) => {
+    if (!next.roomId) return
+    
+    const from = previous?.roomId ?? origin
+    setTripMode(false)
+    setTripStops([])
+    setNearby(null)
+    setOrigin(from)
+    setOriginQuery(queryFor(from))
+    setDestination(next.roomId)
+    setSelectedEntry(null)
+    setSearchQuery(next.roomId)
+    setCurrentFloor(map.nodes[next.roomId].floor)
+    calculateRoute(from, next.roomId, routingProfile)
+  }
+  
+  // Read an .ics file picked by the user; the next class becomes the
+  // destination unless one is already set
+  const importTimetable = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    
+    try {
+      const events = parseTimetable(await file.text(), map)
+      setTimetable(events)
+      setTimetableError(null)
+      
+      const upcoming = getNextClass(events, new Date())
+      if (upcoming && !destination) routeToClass(upcoming)
+    } catch (error) {
+      setTimetableError(error instanceof TimetableError ? 'timetable.notCalendar' : 'timetable.unreadable')
+    }
+  }
+
+  const swapEnds = () => {
+    if (!destination) return
+    
+    setOrigin(destination)
+    setOriginQuery(queryFor(destination))
+    setDestination(origin)
+    setSearchQuery(origin)
+    setCurrentFloor(map.nodes[origin].floor)
+    calculateRoute(destination, origin, routingProfile)
+  }
+
+  const handleProfileChange = (profile: RoutingProfile) => {
+    setRoutingProfile(profile)
+    recalculate(origin, profile)
+  }
+
+  const handleRoleChange = (role: UserRole) => {
+    setUserRole(role)
+    recalculate(origin, routingProfile, role)
+  }
+
   const clearDestination = () => {
     setDestination(null)
     setSearchQuery('')
+    setTripStops([])
     setCurrentFloor(1)
     setPathSteps([])
+    setRouteChoices([])
+    setRouteNotice(null)
+    setRouteAlerts([])
     setCurrentStep(0)
     setShowDirections(false)
   }
 
+  // Show the route a link describes, on load and on the browser's back and forward buttons
+  const applyLink = (link: RouteLink) => {
+    const from = link.from ?? defaultStart
+    const profile = link.mode ?? 'shortest'
+    setTripMode(false)
+    setNearby(null)
+    setSelectedEntry(null)
+    setOrigin(from)
+    setOriginQuery(queryFor(from))
+    setRoutingProfile(profile)
+    
+    if (link.to) {
+      setTripStops([])
+      setDestination(link.to)
+      setSearchQuery(isRoomNode(map.nodes[link.to]) ? link.to : getDisplayName(map, link.to, i18n))
+      calculateRoute(from, link.to, profile)
+    } else {
+      clearDestination()
+    }
+    setCurrentFloor(link.floor ?? (link.to ? map.nodes[link.to].floor : 1))
+  }
+  const applyLinkRef = useRef(applyLink)
+  useEffect(() => {
+    applyLinkRef.current = applyLink
+  })
+
+  useEffect(() => {
+    if (initialLink.to) applyLinkRef.current(initialLink)
+    
+    const followLink = () => applyLinkRef.current(parseRouteLink(window.location.search, map))
+    window.addEventListener('popstate', followLink)
+    return () => window.removeEventListener('popstate', followLink)
+  }, [map, initialLink])
+
+  // Keep the address bar in step with the route: a new destination adds a
+  // history entry so Back undoes it, other changes replace the current one.
+  // A link restored by Back or Forward and written differently, e.g. by hand,
+  // is only rewritten.
+  useEffect(() => {
+    const search = formatRouteLink({
+      from: origin !== defaultStart ? origin : undefined,
+      to: destination ?? undefined,
+      mode: routingProfile,
+      floor: destination || currentFloor !== 1 ? currentFloor : undefined
+    })
+    const followingHistory = window.location.search !== linkedSearch.current
+    const isNewDestination = destination !== linkedDestination.current && !followingHistory
+    linkedDestination.current = destination
+    linkedSearch.current = search
+    if (search === window.location.search) return
+    
+    const url = `${window.location.pathname}${search}${window.location.hash}`
+    if (isNewDestination) {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }, [origin, destination, routingProfile, currentFloor, defaultStart])
+
+  useEffect(() => {
+    if (!speech) return
+    setVoices(speech.engine.getVoices())
+    const unsubscribe = speech.engine.onVoicesChanged(() => setVoices(speech.engine.getVoices()))
+    return () => {
+      unsubscribe()
+      speech.queue.clear()
+    }
+  }, [speech])
+
+  useEffect(() => {
+    speech?.queue.configure({
+      lang: languageTags[i18n.locale],
+      rate: voiceSettings.rate,
+      voice: voiceSettings.voices[i18n.locale]
+    })
+  }, [speech, i18n, voiceSettings])
+
+  // Read each step out as it starts
+  useEffect(() => {
+    if (!speech) return
+    if (voiceSettings.muted || !showDirections || !pathSteps[currentStep]) {
+      speech.queue.clear()
+      return
+    }
+    speech.queue.interrupt(...getStepAnnouncements(map, pathSteps, currentStep, i18n))
+  }, [speech, map, pathSteps, currentStep, showDirections, voiceSettings.muted, i18n])
+
+  const updateVoiceSettings = (settings: VoiceSettings) => {
+    setVoiceSettings(settings)
+    saveVoiceSettings(settings)
+  }
+
+  const repeatStep = () => {
+    if (pathSteps[currentStep]) speech?.queue.interrupt(...getStepAnnouncements(map, pathSteps, currentStep, i18n))
+  }
+
+  // Take text view users to a route as soon as it comes up
+  useEffect(() => {
+    if (!focusRoutePanel.current) return
+    focusRoutePanel.current = false
+    if (textView) routePanel.current?.focus()
+  }, [pathSteps, routeChoices, routeNotice, textView])
+
   const nextStep = () => {
     if (currentStep < pathSteps.length - 1) {
       setCurrentStep(currentStep + 1)
@@ -371,24 +1230,26 @@ export default function Navigation3D() {
     }
   }
 
+  // The step buttons disable themselves at either end of the route; keep
+  // keyboard focus on the one still usable
+  const stepForward = () => {
+    nextStep()
+    if (currentStep + 1 === pathSteps.length - 1) prevButton.current?.focus()
+  }
+
+  const stepBack = () => {
+    prevStep()
+    if (currentStep === 1) nextButton.current?.focus()
+  }
+
   const toggleAR = () => {
     setIsARActive(!isARActive)
   }
 
-  // Convert pathSteps to AR-compatible directions
-  const arDirections = pathSteps.map(step => ({
-    instruction: step.instruction,
-    distance: step.distance,
-    direction: step.floorChange === 'up' ? 'up' as const : 
-              step.floorChange === 'down' ? 'down' as const :
-              step.instruction.toLowerCase().includes('left') ? 'left' as const :
-              step.instruction.toLowerCase().includes('right') ? 'right' as const :
-              'straight' as const,
-    floor: step.floor
-  }))
-
   return (
-    <div className="h-screen w-full bg-slate-50 relative">
+    <div className={`h-screen w-full bg-slate-50 relative ${showRouteSheet ? 'print:hidden' : ''}`}>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">{routeStatus}</div>
+
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-10 bg-white/90 backdrop-blur-sm border-b border-slate-200">
         <div className="max-w-7xl mx-auto px-4 py-4">
@@ -396,23 +1257,44 @@ export default function Navigation3D() {
             <div className="flex items-center space-x-3">
               <Navigation className="h-8 w-8 text-blue-600" />
               <div>
-                <h1 className="text-xl font-semibold text-slate-900">St. Lawrence College</h1>
-                <p className="text-sm text-slate-600">3D Indoor Navigation</p>
+                <h1 className="text-xl font-semibold text-slate-900">{map.metadata.name}</h1>
+                <p className="text-sm text-slate-600">{t('app.subtitle')}</p>
               </div>
             </div>
             
-            {/* Floor Selector */}
+            {/* Language and Floor Selector */}
             <div className="flex items-center space-x-2">
-              <span className="text-sm text-slate-600">Floor:</span>
-              {[1, 2, 3].map(floor => (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onLocaleChange(otherLocale)}
+                title={t('app.language')}
+                lang={otherLocale}
+                className="mr-2"
+              >
+                <Languages className="h-4 w-4 mr-1" />
+                {localeNames[otherLocale]}
+              </Button>
+              <Button
+                variant={textView ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTextView(!textView)}
+                aria-pressed={textView}
+                className="mr-2"
+              >
+                <ListTree className="h-4 w-4 mr-1" />
+                {t('a11y.textView')}
+              </Button>
+              <span className="text-sm text-slate-600">{t('floor.picker')}</span>
+              {map.floors.map(({ level }) => (
                 <Button
-                  key={floor}
-                  variant={currentFloor === floor ? "default" : "outline"}
+                  key={level}
+                  variant={currentFloor === level ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setCurrentFloor(floor)}
+                  onClick={() => setCurrentFloor(level)}
                   className="w-10 h-10"
                 >
-                  {floor}
+                  {level}
                 </Button>
               ))}
             </div>
@@ -422,70 +1304,314 @@ export default function Navigation3D() {
 
       {/* Search Bar */}
       <div className="absolute top-24 left-4 right-4 z-10 max-w-md mx-auto">
-        <div className="relative">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
-            <Input
-              type="text"
-              placeholder="Search for room (e.g., A233, 11840)..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 pr-4 py-3 bg-white/90 backdrop-blur-sm border-slate-200 focus:border-blue-500"
+        <div className="flex items-center space-x-2">
+          <div className="flex-1 space-y-2">
+            <div className="flex items-center space-x-2">
+              <LocationSearch
+                map={map}
+                directory={directory}
+                i18n={i18n}
+                query={originQuery}
+                onQueryChange={handleOriginQueryChange}
+                onSelect={place => changeOrigin(place.room.id)}
+                placeholder={t('search.from', { place: getDisplayName(map, defaultStart, i18n).toLocaleLowerCase(i18n.locale) })}
+                icon={CircleDot}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => currentLocation && changeOrigin(currentLocation)}
+                disabled={!currentLocation || currentLocation === origin}
+                title={t('search.useCurrentLocation')}
+                className="bg-white/90"
+              >
+                <LocateFixed className="h-4 w-4" />
+              </Button>
+            </div>
+            <LocationSearch
+              map={map}
+              directory={directory}
+              i18n={i18n}
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              onSelect={place => handleSelect(place.room, routingProfile, 'entry' in place ? place.entry : undefined)}
+              placeholder={tripMode ? t('search.addStop') : t('search.destination')}
+              icon={Search}
             />
           </div>
-          
-          {/* Search Suggestions */}
-          {showSuggestions && filteredRooms.length > 0 && (
-            <Card className="absolute top-full mt-1 w-full bg-white/95 backdrop-blur-sm border-slate-200">
-              <CardContent className="p-2">
-                {filteredRooms.slice(0, 5).map(room => (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={swapEnds}
+            disabled={!destination || tripMode}
+            title={t('search.swap')}
+            className="bg-white/90"
+          >
+            <ArrowUpDown className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Amenity Quick Actions */}
+        <div className="mt-2 flex flex-wrap items-center gap-1">
+          {amenityTypes.map(amenity => {
+            const Icon = amenityIcons[amenity]
+            return (
+              <Button
+                key={amenity}
+                variant={nearby?.amenity === amenity ? "default" : "outline"}
+                size="sm"
+                onClick={() => findAmenity(amenity)}
+                className="h-7 px-2 text-xs rounded-full"
+              >
+                <Icon className="h-3 w-3 mr-1" />
+                {t(`amenity.${amenity}`)}
+              </Button>
+            )
+          })}
+        </div>
+
+        {/* Nearest Amenities */}
+        {nearby && (
+          <Card className="mt-2 bg-white/95 backdrop-blur-sm border-slate-200">
+            <CardContent className="p-3 space-y-1">
+              <div className="text-sm font-medium text-slate-900">
+                {t('nearby.title', { amenity: t(`amenity.${nearby.amenity}`).toLocaleLowerCase(i18n.locale) })}
+              </div>
+              {nearby.results.length === 0 ? (
+                <p className="text-xs text-slate-500">
+                  {t('nearby.none', { origin: getDisplayName(map, origin, i18n) })}
+                </p>
+              ) : (
+                nearby.results.map(({ id, steps }) => (
                   <button
-                    key={room.id}
-                    onClick={() => handleRoomSelect(room)}
-                    className="w-full text-left px-3 py-2 hover:bg-slate-100 rounded-md transition-colors"
+                    key={id}
+                    onClick={() => handleSelect(map.nodes[id], nearby.profile)}
+                    className="w-full flex items-center justify-between px-2 py-1 rounded-md text-left text-sm hover:bg-slate-100"
                   >
-                    <div className="font-medium text-slate-900">{room.id}</div>
-                    <div className="text-sm text-slate-600">{room.name} • Floor {room.floor}</div>
+                    <span className="text-slate-700">
+                      {isRoomNode(map.nodes[id]) ? getDisplayName(map, id, i18n) : `${getDisplayName(map, id, i18n)} (${id})`}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {t('floor.number', { floor: map.nodes[id].floor })} • {t('time.minutes', { minutes: estimateMinutes(steps) })}
+                    </span>
                   </button>
-                ))}
-              </CardContent>
-            </Card>
-          )}
-        </div>
-      </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
 
-      {/* Directions Panel */}
-      {showDirections && (
-        <div className="absolute top-40 left-4 z-10 w-80">
-          <DirectionsPanel pathSteps={pathSteps} currentStep={currentStep} />
-          
-          {/* Navigation Controls */}
-          <div className="mt-2 flex space-x-2">
+        {/* Routing Profile */}
+        <div className="mt-2 flex items-center space-x-1">
+          <Accessibility className="h-4 w-4 text-slate-500 mr-1" />
+          {routingProfiles.map(profile => (
             <Button
-              variant="outline"
+              key={profile}
+              variant={routingProfile === profile ? "default" : "outline"}
               size="sm"
-              onClick={prevStep}
-              disabled={currentStep === 0}
-              className="flex-1"
+              onClick={() => handleProfileChange(profile)}
+              className="h-7 px-2 text-xs"
             >
-              ← Previous
+              {t(`profile.${profile}`)}
             </Button>
+          ))}
+          <Button
+            variant={tripMode ? "default" : "outline"}
+            size="sm"
+            onClick={toggleTripMode}
+            className="h-7 px-2 text-xs ml-auto"
+          >
+            <ListOrdered className="h-3 w-3 mr-1" />
+            {t('trip.multiStop')}
+          </Button>
+        </div>
+
+        {/* User Role */}
+        <div className="mt-2 flex items-center space-x-1">
+          <KeyRound className="h-4 w-4 text-slate-500 mr-1" />
+          {userRoles.map(role => (
             <Button
-              variant="outline"
+              key={role}
+              variant={userRole === role ? "default" : "outline"}
               size="sm"
-              onClick={nextStep}
-              disabled={currentStep === pathSteps.length - 1}
-              className="flex-1"
+              onClick={() => handleRoleChange(role)}
+              className="h-7 px-2 text-xs"
             >
-              Next →
+              {t(`role.${role}`)}
             </Button>
-          </div>
+          ))}
+          <input
+            ref={timetableInput}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={importTimetable}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => timetableInput.current?.click()}
+            title={t('timetable.import')}
+            className="h-7 px-2 text-xs ml-auto"
+          >
+            <CalendarDays className="h-3 w-3 mr-1" />
+            {t('timetable.button')}
+          </Button>
+        </div>
+        {timetableError && (
+          <p className="mt-1 text-xs text-red-700">{t(timetableError)}</p>
+        )}
+
+        {/* Next Class */}
+        {timetable.length > 0 && (
+          <NextClassCard
+            map={map}
+            nextClass={nextClass}
+            walk={nextClass ? planClassWalk(nextClass) : null}
+            i18n={i18n}
+            onRoute={() => nextClass && routeToClass(nextClass)}
+            onClear={() => setTimetable([])}
+          />
+        )}
+
+        {/* Trip Stops */}
+        {tripMode && (
+          <Card className="mt-2 bg-white/95 backdrop-blur-sm border-slate-200">
+            <CardContent className="p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-900">{t('trip.stops')}</span>
+                <label className="flex items-center space-x-2 text-xs text-slate-600">
+                  <span>{t('trip.bestOrder')}</span>
+                  <Switch
+                    checked={optimizeTrip}
+                    onCheckedChange={checked => {
+                      setOptimizeTrip(checked)
+                      planTrip(origin, tripStops, checked, routingProfile)
+                    }}
+                  />
+                </label>
+              </div>
+              {tripStops.length === 0 ? (
+                <p className="text-xs text-slate-500">{t('trip.empty')}</p>
+              ) : (
+                <ol className="space-y-1">
+                  {tripStops.map((stopId, index) => (
+                    <li key={stopId} className="flex items-center space-x-2 text-sm">
+                      <span className="w-5 h-5 rounded-full bg-orange-100 text-orange-800 text-xs flex items-center justify-center">
+                        {index + 1}
+                      </span>
+                      <span className="flex-1 text-slate-700">{getDisplayName(map, stopId, i18n)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => planTrip(origin, tripStops.filter(id => id !== stopId), optimizeTrip, routingProfile)}
+                        className="h-6 px-2 text-slate-400 hover:text-slate-600"
+                      >
+                        ×
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Route Picker */}
+      {routeChoices.length > 0 && (
+        <div
+          ref={routePanel}
+          tabIndex={-1}
+          aria-label={t('routes.title')}
+          className="absolute top-64 left-4 z-10 w-80 outline-none"
+        >
+          <RoutePicker
+            map={map}
+            choices={routeChoices}
+            alerts={routeAlerts}
+            i18n={i18n}
+            onChoose={steps => showRoute(steps, null)}
+          />
+        </div>
+      )}
+
+      {/* Directions Panel */}
+      {showDirections && destination && (
+        <div
+          ref={routePanel}
+          tabIndex={-1}
+          aria-label={t('directions.title')}
+          className="absolute top-64 left-4 z-10 w-80 outline-none"
+        >
+          <DirectionsPanel
+            pathSteps={pathSteps}
+            currentStep={currentStep}
+            notice={routeNotice}
+            alerts={routeAlerts}
+            map={map}
+            profile={routingProfile}
+            i18n={i18n}
+          />
+
+          {speech && pathSteps.length > 0 && (
+            <VoiceControls
+              settings={voiceSettings}
+              voices={getVoicesFor(voices, i18n.locale)}
+              i18n={i18n}
+              onChange={updateVoiceSettings}
+              onRepeat={repeatStep}
+            />
+          )}
+          
+          {/* Navigation Controls */}
+          {pathSteps.length > 0 && (
+            <div className="mt-2 flex space-x-2">
+              <Button
+                ref={prevButton}
+                variant="outline"
+                size="sm"
+                onClick={stepBack}
+                disabled={currentStep === 0}
+                className="flex-1"
+              >
+                {t('directions.previous')}
+              </Button>
+              <Button
+                ref={nextButton}
+                variant="outline"
+                size="sm"
+                onClick={stepForward}
+                disabled={currentStep === pathSteps.length - 1}
+                className="flex-1"
+              >
+                {t('directions.next')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRouteSheet(true)}
+                title={t('directions.print')}
+              >
+                <Printer className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
       {/* Destination Info */}
       {destination && (
-        <div className="absolute bottom-4 left-4 z-10">
+        <div className="absolute bottom-4 left-4 z-10 space-y-2">
+          {showShare && (
+            <ShareCard
+              map={map}
+              origin={origin !== defaultStart ? origin : null}
+              destination={destination}
+              profile={routingProfile}
+              i18n={i18n}
+            />
+          )}
           <Card className="bg-white/90 backdrop-blur-sm border-slate-200">
             <CardContent className="p-4">
               <div className="flex items-start justify-between">
@@ -493,40 +1619,88 @@ export default function Navigation3D() {
                   <MapPin className="h-5 w-5 text-blue-600 mt-0.5" />
                   <div>
                     <div className="font-medium text-slate-900">
-                      {rooms.find(r => r.id === destination)?.name}
+                      {destinationEntry?.name ?? getDisplayName(map, destination, i18n)}
                     </div>
+                    {destinationEntry?.title && (
+                      <div className="text-xs text-slate-500">{destinationEntry.title}</div>
+                    )}
                     <div className="text-sm text-slate-600">
-                      Room {destination} • Floor {rooms.find(r => r.id === destination)?.floor}
+                      {destinationEntry && `${getDisplayName(map, destination, i18n)} • `}
+                      {isRoomNode(destinationNode) ? t('destination.room', { room: destination }) : destination}
+                      {destinationNode && ` • ${t('floor.number', { floor: destinationNode.floor })}`}
                     </div>
+                    {!destinationEntry && destinationEntries.length > 0 && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {t('destination.here', { names: destinationEntries.map(entry => entry.name).join(', ') })}
+                      </div>
+                    )}
+                    {destinationStatus && (
+                      <div className={`text-xs mt-1 ${destinationStatus.open ? 'text-green-700' : 'text-red-700'}`}>
+                        {destinationStatus.text}
+                      </div>
+                    )}
+                    {destinationNode?.access && destinationNode.access !== 'public' && (
+                      <div className={`text-xs mt-1 ${canAccess(destinationNode.access, userRole) ? 'text-slate-500' : 'text-amber-700'}`}>
+                        {t(`access.${destinationNode.access}`)}
+                        {!canAccess(destinationNode.access, userRole) && ` — ${t(`access.closedTo.${userRole}`)}`}
+                      </div>
+                    )}
                     {pathSteps.length > 0 && (
                       <div className="text-xs text-blue-600 mt-1">
-                        Step {currentStep + 1} of {pathSteps.length}
+                        {t('destination.step', { step: currentStep + 1, count: pathSteps.length })}
                       </div>
                     )}
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={clearDestination}
-                  className="text-slate-400 hover:text-slate-600"
-                >
-                  ×
-                </Button>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowShare(!showShare)}
+                    title={t('destination.share')}
+                    className={showShare ? 'text-blue-600' : 'text-slate-400 hover:text-slate-600'}
+                  >
+                    <QrCodeIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearDestination}
+                    className="text-slate-400 hover:text-slate-600"
+                  >
+                    ×
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
         </div>
       )}
 
+      {/* Text View */}
+      {textView && (
+        <div className="absolute top-24 right-4 z-10 w-96">
+          <TextMapView
+            map={map}
+            i18n={i18n}
+            currentFloor={currentFloor}
+            location={currentLocation ?? origin}
+            heading={pathSteps[currentStep] ? getHeadingAt(map, pathSteps, currentStep) : null}
+            destination={destination}
+            onSelect={node => handleSelect(node)}
+            onFloorChange={setCurrentFloor}
+          />
+        </div>
+      )}
+
       {/* Controls Info */}
       <div className="absolute bottom-4 right-4 z-10">
         <Card className="bg-white/90 backdrop-blur-sm border-slate-200">
           <CardContent className="p-3">
             <div className="text-xs text-slate-600 space-y-1">
-              <div>🖱️ Click & drag to rotate</div>
-              <div>🔍 Scroll to zoom</div>
-              <div>⌨️ Right-click & drag to pan</div>
+              <div>{t('controls.rotate')}</div>
+              <div>{t('controls.zoom')}</div>
+              <div>{t('controls.pan')}</div>
             </div>
           </CardContent>
         </Card>
@@ -536,22 +1710,275 @@ export default function Navigation3D() {
       <Canvas
         camera={{ position: [8, 8, 8], fov: 60 }}
         className="w-full h-full"
+        role="img"
+        aria-label={t('a11y.mapLabel', { floor: currentFloor })}
+        aria-hidden={textView}
       >
-        <Scene3D destination={destination} currentFloor={currentFloor} pathSteps={pathSteps} />
+        <Scene3D
+          map={map}
+          destination={destination}
+          currentFloor={currentFloor}
+          pathSteps={pathSteps}
+          routeChoices={routeChoices}
+          closures={activeClosures}
+          i18n={i18n}
+        />
       </Canvas>
 
       {/* AR Overlay */}
       {destination && (
         <AROverlay
+          map={map}
+          i18n={i18n}
           isActive={isARActive}
           onToggle={toggleAR}
           currentStep={currentStep}
-          directions={arDirections}
-          destination={`${destination} - ${rooms.find(r => r.id === destination)?.name}`}
+          directions={pathSteps}
+          destination={`${destination} - ${getDisplayName(map, destination, i18n)}`}
           onNextStep={nextStep}
           onPrevStep={prevStep}
+          voiceMuted={speech ? voiceSettings.muted : undefined}
+          onToggleVoice={() => updateVoiceSettings({ ...voiceSettings, muted: !voiceSettings.muted })}
         />
       )}
+
+      {/* Print View, outside the app so only the sheet is printed */}
+      {showRouteSheet && pathSteps.length > 0 && createPortal(
+        <RouteSheetView
+          map={map}
+          steps={pathSteps}
+          profile={routingProfile}
+          i18n={i18n}
+          onClose={() => setShowRouteSheet(false)}
+        />,
+        document.body
+      )}
+    </div>
+  )
+}
+
+// Whether a file the service worker reports as changed is one of ours
+function isDataFile(changedPath: string, url: string): boolean {
+  return new URL(url, window.location.href).pathname === changedPath
+}
+
+// Data kept from before a refresh that failed
+type StaleData = 'closures' | 'directory'
+
+// Offline status, updates waiting to be applied and data that could not be refreshed
+function UpdateBanner({ online, mapUpdate, appUpdateReady, staleData, i18n, onApplyMap }: {
+  online: boolean,
+  mapUpdate: Building | null,
+  appUpdateReady: boolean,
+  staleData: StaleData[],
+  i18n: I18n,
+  onApplyMap: () => void
+}) {
+  const { t } = i18n
+  if (online && !mapUpdate && !appUpdateReady && staleData.length === 0) return null
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-40 w-80 space-y-2" role="status">
+      {!online && (
+        <div className="flex items-center space-x-2 px-3 py-2 rounded-md bg-slate-800 text-white text-sm shadow-lg">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          <span>{t('offline.notice')}</span>
+        </div>
+      )}
+      {staleData.map(data => (
+        <div key={data} className="flex items-center space-x-2 px-3 py-2 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900 shadow-lg">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{t(`update.${data}Failed`)}</span>
+        </div>
+      ))}
+      {mapUpdate && (
+        <div className="flex items-center justify-between space-x-2 px-3 py-2 rounded-md bg-blue-50 border border-blue-200 text-sm text-blue-900 shadow-lg">
+          <span>{t('update.map', { version: mapUpdate.metadata.version })}</span>
+          <Button size="sm" variant="outline" onClick={onApplyMap}>
+            {t('update.mapApply')}
+          </Button>
+        </div>
+      )}
+      {appUpdateReady && (
+        <div className="flex items-center justify-between space-x-2 px-3 py-2 rounded-md bg-blue-50 border border-blue-200 text-sm text-blue-900 shadow-lg">
+          <span>{t('update.app')}</span>
+          <Button size="sm" variant="outline" onClick={applyAppUpdate}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            {t('update.appReload')}
+          </Button>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+export default function Navigation3D() {
+  const [map, setMap] = useState<Building | null>(null)
+  const [closures, setClosures] = useState<Closure[]>([])
+  const [directory, setDirectory] = useState<DirectoryEntry[]>([])
+  const [loadError, setLoadError] = useState<MapLoadError | null>(null)
+  // A newer map waits for the user, so a route being followed is not redrawn under them
+  const [mapUpdate, setMapUpdate] = useState<Building | null>(null)
+  const [appUpdateReady, setAppUpdateReady] = useState(false)
+  const [staleData, setStaleData] = useState<StaleData[]>([])
+  const [online, setOnline] = useState(navigator.onLine)
+  const [locale, setLocale] = useState<Locale>(detectLocale)
+  const i18n = useMemo(() => createI18n(locale), [locale])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  useEffect(() => {
+    loadMap()
+      .then(setMap)
+      .catch(error => {
+        console.error('Error loading map:', error)
+        setLoadError(error instanceof MapLoadError ? error : new MapLoadError(String(error)))
+      })
+  }, [])
+
+  // Closures and the directory are checked against the map, so they reload with
+  // it; ones that do not fit the map are dropped rather than kept from the last one
+  useEffect(() => {
+    if (!map) return
+
+    // Closures are optional: without them routes use the map as drawn
+    loadClosures(map)
+      .then(setClosures)
+      .catch(error => {
+        console.warn('Closures not applied:', error)
+        setClosures([])
+      })
+
+    // Without a directory only rooms can be searched
+    loadDirectory(map)
+      .then(setDirectory)
+      .catch(error => {
+        console.warn('Directory not loaded:', error)
+        setDirectory([])
+      })
+  }, [map])
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  // Changes the service worker found while serving cached data. Closures and
+  // the directory only affect the next search or route, so they apply at once;
+  // when they cannot be refreshed the ones in use stay, with a notice
+  useEffect(() => {
+    if (!map) return
+
+    const setStale = (data: StaleData, stale: boolean) =>
+      setStaleData(current => [...current.filter(item => item !== data), ...(stale ? [data] : [])])
+
+    return subscribeOfflineEvents(event => {
+      if (event.type === 'app-update-ready') {
+        setAppUpdateReady(true)
+      } else if (isDataFile(event.url, DEFAULT_MAP_URL)) {
+        loadMap()
+          .then(loaded => {
+            if (loaded.metadata.version !== map.metadata.version) setMapUpdate(loaded)
+          })
+          .catch(error => console.warn('Map update not loaded:', error))
+      } else if (isDataFile(event.url, DEFAULT_CLOSURES_URL)) {
+        loadClosures(map)
+          .then(loaded => {
+            setClosures(loaded)
+            setStale('closures', false)
+          })
+          .catch(error => {
+            console.warn('Closures not applied:', error)
+            setStale('closures', true)
+          })
+      } else if (isDataFile(event.url, DEFAULT_DIRECTORY_URL)) {
+        loadDirectory(map)
+          .then(loaded => {
+            setDirectory(loaded)
+            setStale('directory', false)
+          })
+          .catch(error => {
+            console.warn('Directory not loaded:', error)
+            setStale('directory', true)
+          })
+      }
+    })
+  }, [map])
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next)
+    saveLocale(next)
+  }
+
+  // Closures and the directory name nodes of the old map until they reload
+  const applyMapUpdate = () => {
+    setClosures([])
+    setDirectory([])
+    setStaleData([])
+    setMap(mapUpdate)
+    setMapUpdate(null)
+  }
+
+  if (loadError) {
+    return (
+      <div className="h-screen w-full bg-slate-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-lg text-red-700">
+              <AlertTriangle className="h-5 w-5" />
+              <span>{i18n.t('app.loadFailed')}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-slate-700">
+            <p>{loadError.message}</p>
+            {loadError.issues.length > 0 && (
+              <ul className="list-disc pl-5 text-xs text-slate-500 max-h-48 overflow-y-auto">
+                {loadError.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!map) {
+    return (
+      <div className="h-screen w-full bg-slate-50 flex items-center justify-center text-slate-600">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span>{i18n.t('app.loading')}</span>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* Keyed by version so an applied update starts afresh; the route link in the URL restores the route */}
+      <NavigationView
+        key={map.metadata.version}
+        map={map}
+        closures={closures}
+        directory={directory}
+        i18n={i18n}
+        onLocaleChange={changeLocale}
+      />
+      <UpdateBanner
+        online={online}
+        mapUpdate={mapUpdate}
+        appUpdateReady={appUpdateReady}
+        staleData={staleData}
+        i18n={i18n}
+        onApplyMap={applyMapUpdate}
+      />
+    </>
+  )
+}
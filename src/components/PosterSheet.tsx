@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2, Printer } from 'lucide-react'
+import { Button } from './ui/button'
+import { Building, PathNode, getDisplayName, isRoomNode } from '../utils/building'
+import { I18n, createI18n, detectLocale } from '../utils/i18n'
+import { loadMap } from '../utils/mapLoader'
+import { getRouteUrl } from '../utils/routeLink'
+import { fitsQr } from '../utils/qrCode'
+import { QrCode } from './QrCode'
+
+// Places that get a "Navigate from here" sign: every room and entrance
+function getPosterNodes(map: Building): PathNode[] {
+  return Object.values(map.nodes)
+    .filter(node => isRoomNode(node) || node.type === 'entrance')
+    .sort((a, b) => a.floor - b.floor || a.id.localeCompare(b.id))
+}
+
+function Poster({ map, node, i18n }: { map: Building, node: PathNode, i18n: I18n }) {
+  const { t } = i18n
+  const url = getRouteUrl({ from: node.id, floor: node.floor })
+  const name = getDisplayName(map, node.id, i18n)
+  const floorName = map.floors.find(({ level }) => level === node.floor)?.name ?? t('floor.number', { floor: node.floor })
+
+  return (
+    <section className="min-h-screen flex flex-col items-center justify-center gap-6 p-12 text-center break-after-page">
+      <div className="text-sm uppercase tracking-widest text-slate-500">{map.metadata.name}</div>
+      <h1 className="text-5xl font-bold text-slate-900">{name}</h1>
+      <div className="text-xl text-slate-600">
+        {isRoomNode(node) ? t('destination.room', { room: node.id }) : node.id} • {floorName}
+      </div>
+      <QrCode value={url} label={t('poster.link', { place: name })} className="w-80 h-80" />
+      <div className="text-3xl font-semibold text-blue-700">{t('poster.scan')}</div>
+      {fitsQr(url) && <div className="text-xs text-slate-400 break-all">{url}</div>}
+    </section>
+  )
+}
+
+// Printable sheet with one QR poster per room and entrance, opened at /?posters
+export default function PosterSheet() {
+  const [map, setMap] = useState<Building | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const i18n = useMemo(() => createI18n(detectLocale()), [])
+  const { t } = i18n
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale
+  }, [i18n])
+
+  useEffect(() => {
+    loadMap()
+      .then(setMap)
+      .catch(error => setError(error instanceof Error ? error.message : String(error)))
+  }, [])
+
+  if (error) {
+    return <div className="p-8 text-red-700">{t('app.loadFailed')}: {error}</div>
+  }
+
+  if (!map) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center text-slate-600">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        <span>{t('app.loading')}</span>
+      </div>
+    )
+  }
+
+  const nodes = getPosterNodes(map)
+
+  return (
+    <div className="bg-white">
+      <div className="sticky top-0 z-10 flex items-center justify-between px-6 py-3 border-b border-slate-200 bg-white/95 print:hidden">
+        <span className="text-sm text-slate-600">
+          {t('poster.count', { count: nodes.length, map: map.metadata.name, version: map.metadata.version })}
+        </span>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-1" />
+          {t('sheet.print')}
+        </Button>
+      </div>
+      {nodes.map(node => (
+        <Poster key={node.id} map={map} node={node} i18n={i18n} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { useMemo } from 'react'
+import { QR_QUIET_ZONE, encodeQr, fitsQr, getQrPath } from '../utils/qrCode'
+
+// QR code drawn as an SVG, so it stays sharp at any print size. A link too
+// long for a code, e.g. a trip with many stops, is shown as the link itself.
+export function QrCode({ value, label, className }: { value: string, label: string, className?: string }) {
+  const matrix = useMemo(() => fitsQr(value) ? encodeQr(value) : null, [value])
+  if (!matrix) {
+    return <a href={value} className="text-sm text-blue-600 hover:underline break-all">{value}</a>
+  }
+
+  const size = matrix.length + QR_QUIET_ZONE * 2
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={label}
+      className={className}
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={getQrPath(matrix)} fill="#000" />
+    </svg>
+  )
+}
@@ -0,0 +1,149 @@
+import { FileDown, Printer, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { Building } from '../utils/building'
+import { I18n } from '../utils/i18n'
+import { PathStep, RoutingProfile } from '../utils/pathfinding'
+import { RouteSheet, SHEET_COLORS, SheetSection, buildRouteSheet, createProjection, formatSheetTotals, getSnapshotHeight, getSnapshotShapes, renderRouteSheetPdf } from '../utils/routeSheet'
+
+// Snapshot size on screen and paper, in CSS pixels
+const SNAPSHOT_WIDTH = 640
+const SNAPSHOT_MAX_HEIGHT = 320
+
+function FloorSnapshot({ map, sheet, section, i18n }: { map: Building, sheet: RouteSheet, section: SheetSection, i18n: I18n }) {
+  const height = getSnapshotHeight(map, SNAPSHOT_WIDTH, SNAPSHOT_MAX_HEIGHT)
+  const project = createProjection(map, SNAPSHOT_WIDTH, height)
+  const toPath = (points: [number, number][]) => points.map(point => project(point).join(',')).join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${SNAPSHOT_WIDTH} ${height}`}
+      role="img"
+      aria-label={i18n.t('sheet.snapshot', { floor: section.floorName })}
+      className="w-full h-auto border border-slate-200 rounded-md bg-slate-50"
+    >
+      {getSnapshotShapes(map, sheet, section).map((shape, index) => {
+        switch (shape.kind) {
+          case 'corridor':
+            return <polyline key={index} points={toPath(shape.points)} stroke={SHEET_COLORS.corridor} strokeWidth={6} strokeLinecap="round" fill="none" />
+          case 'route':
+            return <polyline key={index} points={toPath(shape.points)} stroke={SHEET_COLORS.route} strokeWidth={4} strokeLinecap="round" strokeLinejoin="round" fill="none" />
+          case 'room': {
+            const [x, y] = project(shape.at)
+            return (
+              <g key={index}>
+                <rect
+                  x={x - 20}
+                  y={y - 12}
+                  width={40}
+                  height={24}
+                  rx={3}
+                  fill={shape.onRoute ? SHEET_COLORS.roomOnRoute : SHEET_COLORS.room}
+                  stroke={SHEET_COLORS.muted}
+                  strokeWidth={0.5}
+                />
+                <text x={x} y={y + 4} textAnchor="middle" fontSize={10} fill={SHEET_COLORS.text}>{shape.label}</text>
+              </g>
+            )
+          }
+          case 'end': {
+            const [x, y] = project(shape.at)
+            return <circle key={index} cx={x} cy={y} r={9} fill={shape.role === 'start' ? SHEET_COLORS.start : SHEET_COLORS.destination} />
+          }
+          case 'step': {
+            const [x, y] = project(shape.at)
+            return (
+              <g key={index}>
+                <circle cx={x + 12} cy={y - 12} r={8} fill="#fff" stroke={SHEET_COLORS.route} />
+                <text x={x + 12} y={y - 8.5} textAnchor="middle" fontSize={10} fontWeight="bold" fill={SHEET_COLORS.route}>
+                  {shape.number}
+                </text>
+              </g>
+            )
+          }
+        }
+      })}
+      {/* North arrow; the snapshot has north at the top like the compass words in the steps */}
+      <g transform={`translate(${SNAPSHOT_WIDTH - 18}, 10)`} stroke={SHEET_COLORS.muted} fill="none">
+        <text x={0} y={10} textAnchor="middle" fontSize={11} fontWeight="bold" fill={SHEET_COLORS.muted} stroke="none">
+          {i18n.t('sheet.north')}
+        </text>
+        <path d="M0 30 V14 M-5 19 L0 14 L5 19" strokeWidth={1.5} />
+      </g>
+    </svg>
+  )
+}
+
+// Printable directions for the front desk, with a PDF download made in the browser
+export function RouteSheetView({ map, steps, profile, i18n, onClose }: {
+  map: Building,
+  steps: PathStep[],
+  profile: RoutingProfile,
+  i18n: I18n,
+  onClose: () => void
+}) {
+  const { t, formatNumber } = i18n
+  const sheet = buildRouteSheet(map, steps, profile, i18n)
+
+  const downloadPdf = () => {
+    const url = URL.createObjectURL(renderRouteSheetPdf(map, sheet, new Date(), i18n))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `directions-${steps[steps.length - 1].to}.pdf`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-white print:static print:overflow-visible">
+      <div className="sticky top-0 flex items-center justify-end space-x-2 px-6 py-3 border-b border-slate-200 bg-white/95 print:hidden">
+        <Button variant="outline" size="sm" onClick={downloadPdf}>
+          <FileDown className="h-4 w-4 mr-1" />
+          {t('sheet.downloadPdf')}
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-1" />
+          {t('sheet.print')}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose} title={t('sheet.close')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <article className="max-w-2xl mx-auto p-8 space-y-6 text-slate-900">
+        <header className="space-y-1">
+          <h1 className="text-2xl font-bold">{t('sheet.title', { to: sheet.to })}</h1>
+          <p className="text-sm text-slate-600">{t('sheet.from', { from: sheet.from, map: sheet.mapName })}</p>
+          <p className="font-semibold">{formatSheetTotals(sheet, i18n)}</p>
+          <p className="text-sm text-slate-600">{sheet.summary}</p>
+        </header>
+
+        {sheet.sections.map((section, index) => (
+          <section key={index} className="space-y-3 break-inside-avoid">
+            <h2 className="text-lg font-semibold">{section.floorName}</h2>
+            <FloorSnapshot map={map} sheet={sheet} section={section} i18n={i18n} />
+            <ol className="space-y-2">
+              {section.steps.map(({ number, step, instruction, callout }) => (
+                <li key={number} className="flex items-start space-x-3">
+                  <span className="w-6 h-6 flex-shrink-0 rounded-full border border-blue-600 text-blue-600 text-xs font-bold flex items-center justify-center">
+                    {number}
+                  </span>
+                  <div className="flex-1 space-y-1">
+                    <div>
+                      {instruction}{' '}
+                      <span className="text-sm text-slate-500">({t('distance.meters', { distance: formatNumber(step.distance, 1) })})</span>
+                    </div>
+                    {callout && (
+                      <div className="px-3 py-1 rounded-md bg-amber-100 text-amber-900 text-sm font-semibold">
+                        {callout}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ))}
+      </article>
+    </div>
+  )
+}
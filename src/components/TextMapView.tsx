@@ -0,0 +1,216 @@
+import { useState, useRef, useEffect, useId, FocusEvent, KeyboardEvent } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Building, PathNode, getDisplayName, getFloorNodes, isRoomNode } from '../utils/building'
+import { I18n } from '../utils/i18n'
+import { describeSurroundings } from '../utils/instructions'
+
+// Rooms first in room-number order, then connectors, entrances and amenities
+function getFloorPlaces(map: Building, level: number): PathNode[] {
+  const places = getFloorNodes(map, level).filter(node => node.type !== 'hallway' || (node.amenities?.length ?? 0) > 0)
+  const rank = (node: PathNode) => node.type === 'room' ? 0 : 1
+  return places.sort((a, b) => rank(a) - rank(b) || a.id.localeCompare(b.id, undefined, { numeric: true }))
+}
+
+function describePlace(map: Building, node: PathNode, i18n: I18n): string {
+  const { t } = i18n
+  const amenities = (node.amenities ?? []).map(amenity => t(`amenity.${amenity}`))
+
+  if (isRoomNode(node)) {
+    return [`${node.id} — ${node.room.name}`, t(`category.${node.room.category}`), ...amenities].join(', ')
+  }
+  if (node.type === 'hallway') return getDisplayName(map, node.id, i18n)
+  return [t(`nodeLabel.${node.type}`), ...amenities].join(', ')
+}
+
+// Keys of the tree rows: a floor level, or a node ID under its floor
+type TreeRow = { kind: 'floor', level: number } | { kind: 'place', level: number, node: PathNode }
+
+function getRowKey(row: TreeRow): string {
+  return row.kind === 'floor' ? `floor:${row.level}` : row.node.id
+}
+
+// The building as a keyboard-navigable tree of floors and places, with a
+// description of what is around the walker; stands in for the 3D map
+export function TextMapView({ map, i18n, currentFloor, location, heading, destination, onSelect, onFloorChange }: {
+  map: Building,
+  i18n: I18n,
+  currentFloor: number,
+  // Node the walker is at, and the way they face if following a route
+  location: string,
+  heading: number | null,
+  destination: string | null,
+  onSelect: (node: PathNode) => void,
+  onFloorChange: (level: number) => void
+}) {
+  const { t } = i18n
+  const [expanded, setExpanded] = useState(() => new Set([currentFloor]))
+  const [activeKey, setActiveKey] = useState(`floor:${currentFloor}`)
+  const title = useRef<HTMLHeadingElement>(null)
+  const rowRefs = useRef(new Map<string, HTMLLIElement>())
+  const id = useId()
+
+  // Screen reader users land on the view when they switch to it
+  useEffect(() => {
+    title.current?.focus()
+  }, [])
+
+  const floors = map.floors.map(({ level }) => ({ level, places: getFloorPlaces(map, level) }))
+  const rows: TreeRow[] = floors.flatMap(({ level, places }) => [
+    { kind: 'floor' as const, level },
+    ...(expanded.has(level) ? places.map(node => ({ kind: 'place' as const, level, node })) : [])
+  ])
+  const activeIndex = Math.max(0, rows.findIndex(row => getRowKey(row) === activeKey))
+
+  const focusRow = (row: TreeRow) => {
+    const key = getRowKey(row)
+    setActiveKey(key)
+    rowRefs.current.get(key)?.focus()
+  }
+
+  const setFloorExpanded = (level: number, open: boolean) => {
+    const next = new Set(expanded)
+    if (open) {
+      next.add(level)
+      onFloorChange(level)
+    } else {
+      next.delete(level)
+    }
+    setExpanded(next)
+  }
+
+  const activate = (row: TreeRow) => {
+    if (row.kind === 'floor') {
+      setFloorExpanded(row.level, !expanded.has(row.level))
+    } else {
+      onSelect(row.node)
+    }
+  }
+
+  // Tree keys: up and down move, right opens a floor, left closes it or goes
+  // back up to it, Home and End jump, Enter and Space choose
+  const handleKeyDown = (event: KeyboardEvent<HTMLUListElement>) => {
+    const row = rows[activeIndex]
+    if (!row) return
+
+    switch (event.key) {
+      case 'ArrowDown':
+        if (activeIndex < rows.length - 1) focusRow(rows[activeIndex + 1])
+        break
+      case 'ArrowUp':
+        if (activeIndex > 0) focusRow(rows[activeIndex - 1])
+        break
+      case 'Home':
+        focusRow(rows[0])
+        break
+      case 'End':
+        focusRow(rows[rows.length - 1])
+        break
+      case 'ArrowRight':
+        if (row.kind !== 'floor') break
+        if (!expanded.has(row.level)) {
+          setFloorExpanded(row.level, true)
+        } else if (rows[activeIndex + 1]?.kind === 'place') {
+          focusRow(rows[activeIndex + 1])
+        }
+        break
+      case 'ArrowLeft':
+        if (row.kind === 'place') {
+          focusRow({ kind: 'floor', level: row.level })
+        } else if (expanded.has(row.level)) {
+          setFloorExpanded(row.level, false)
+        }
+        break
+      case 'Enter':
+      case ' ':
+        activate(row)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  const rowProps = (row: TreeRow) => {
+    const key = getRowKey(row)
+    return {
+      ref: (element: HTMLLIElement | null) => {
+        if (element) rowRefs.current.set(key, element)
+        else rowRefs.current.delete(key)
+      },
+      tabIndex: key === getRowKey(rows[activeIndex]) ? 0 : -1,
+      // Focus bubbles up from places to their floor
+      onFocus: (event: FocusEvent<HTMLLIElement>) => {
+        if (event.target === event.currentTarget) setActiveKey(key)
+      }
+    }
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-slate-200 max-h-[calc(100vh-8rem)] overflow-y-auto">
+      <CardHeader className="pb-3">
+        <CardTitle>
+          <h2 ref={title} tabIndex={-1} className="text-lg outline-none">{t('a11y.mapTitle')}</h2>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <section aria-labelledby={`${id}-surroundings`}>
+          <h3 id={`${id}-surroundings`} className="text-sm font-semibold text-slate-900">{t('a11y.surroundings')}</h3>
+          <p className="text-sm text-slate-700">{describeSurroundings(map, location, heading, i18n)}</p>
+        </section>
+
+        <section aria-labelledby={`${id}-floors`}>
+          <h3 id={`${id}-floors`} className="text-sm font-semibold text-slate-900">{t('a11y.floors')}</h3>
+          <p id={`${id}-help`} className="text-xs text-slate-500 mb-2">{t('a11y.listHelp')}</p>
+          <ul role="tree" aria-labelledby={`${id}-floors`} aria-describedby={`${id}-help`} onKeyDown={handleKeyDown}>
+            {floors.map(({ level, places }) => (
+              <li
+                key={level}
+                role="treeitem"
+                aria-level={1}
+                aria-expanded={expanded.has(level)}
+                aria-label={`${t('floor.number', { floor: level })} (${t('a11y.placeCount', { count: places.length })})`}
+                {...rowProps({ kind: 'floor', level })}
+                className="rounded-md outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+              >
+                <div
+                  onClick={() => activate({ kind: 'floor', level })}
+                  className={`px-2 py-1 text-sm font-medium cursor-pointer ${level === currentFloor ? 'text-blue-700' : 'text-slate-900'}`}
+                >
+                  <span aria-hidden="true">{expanded.has(level) ? '▾' : '▸'}</span> {t('floor.number', { floor: level })}
+                  <span className="text-slate-500 font-normal">{' '}({t('a11y.placeCount', { count: places.length })})</span>
+                </div>
+                {expanded.has(level) && (
+                  <ul role="group">
+                    {places.map(node => {
+                      const marks = [
+                        node.id === location ? t('a11y.here') : null,
+                        node.id === destination ? t('a11y.destination') : null
+                      ].filter(mark => mark !== null)
+                      return (
+                        <li
+                          key={node.id}
+                          role="treeitem"
+                          aria-level={2}
+                          aria-current={node.id === location ? 'location' : undefined}
+                          {...rowProps({ kind: 'place', level, node })}
+                          onClick={event => {
+                            event.stopPropagation()
+                            activate({ kind: 'place', level, node })
+                          }}
+                          className="ml-4 px-2 py-1 rounded-md text-sm text-slate-700 cursor-pointer hover:bg-slate-50 outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                        >
+                          {describePlace(map, node, i18n)}
+                          {marks.length > 0 && <span className="font-medium text-blue-700"> — {marks.join(', ')}</span>}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </CardContent>
+    </Card>
+  )
+}
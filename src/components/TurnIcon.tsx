@@ -0,0 +1,19 @@
+import { ArrowUp, ArrowDown, ArrowUpLeft, ArrowUpRight, CornerUpLeft, CornerUpRight, Undo2 } from 'lucide-react'
+import { PathStep } from '../utils/pathfinding'
+
+// Arrow for a step's turn, or for its floor change when it changes floors
+export function TurnIcon({ step, className }: { step: PathStep, className?: string }) {
+  if (step.floorChange === 'up') return <ArrowUp className={className} />
+  if (step.floorChange === 'down') return <ArrowDown className={className} />
+
+  switch (step.turn) {
+    case 'slight-left': return <ArrowUpLeft className={className} />
+    case 'slight-right': return <ArrowUpRight className={className} />
+    case 'left':
+    case 'sharp-left': return <CornerUpLeft className={className} />
+    case 'right':
+    case 'sharp-right': return <CornerUpRight className={className} />
+    case 'u-turn': return <Undo2 className={className} />
+    default: return <ArrowUp className={className} />
+  }
+}
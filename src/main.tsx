@@ -1,10 +1,16 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { registerServiceWorker } from './utils/serviceWorker'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
   </React.StrictMode>,
-)
\ No newline at end of file
+)
+
+// Offline support is only built for production; in development the cache would serve stale modules
+if (import.meta.env.PROD) {
+  registerServiceWorker().catch(error => console.warn('Offline support unavailable:', error))
+}
@@ -0,0 +1,109 @@
+// Access classes and opening hours of nodes and edges
+
+import { AccessClass, AccessRules, OpeningPeriod, Weekday } from './building'
+import { I18n } from './i18n'
+
+// Who is walking; decides which access classes they can pass
+export type UserRole = 'visitor' | 'student' | 'staff'
+
+export const userRoles: UserRole[] = ['visitor', 'student', 'staff']
+
+// Students and staff carry access cards; only staff pass staff-only doors
+const allowedRoles: Record<AccessClass, UserRole[]> = {
+  'public': ['visitor', 'student', 'staff'],
+  'card': ['student', 'staff'],
+  'staff-only': ['staff']
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// Days searched ahead for the next opening
+const LOOKAHEAD_DAYS = 7
+
+export function canAccess(access: AccessClass | undefined, role: UserRole): boolean {
+  return !access || allowedRoles[access].includes(role)
+}
+
+// "07:30" as a time on the given day
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = new Date(day)
+  result.setHours(hours, minutes, 0, 0)
+  return result
+}
+
+// Opening periods on a day as concrete start and end times
+function getPeriodsOn(hours: OpeningPeriod[], day: Date): { opens: Date, closes: Date }[] {
+  const weekday = WEEKDAYS[day.getDay()]
+  return hours
+    .filter(period => period.days.includes(weekday))
+    .map(period => ({ opens: atTime(day, period.opens), closes: atTime(day, period.closes) }))
+}
+
+// Whether something with these hours is open; no hours means always open
+export function isOpenAt(hours: OpeningPeriod[] | undefined, at: Date): boolean {
+  if (!hours) return true
+  return getPeriodsOn(hours, at).some(({ opens, closes }) => opens <= at && at < closes)
+}
+
+// Whether a role may pass at a time; unset role or time skips that check
+export function isPassable(rules: AccessRules, role?: UserRole, at?: Date): boolean {
+  if (role && !canAccess(rules.access, role)) return false
+  if (at && !isOpenAt(rules.hours, at)) return false
+  return true
+}
+
+// Start of the next opening period after a time, within the coming week
+export function getNextOpening(hours: OpeningPeriod[], at: Date): Date | null {
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(at)
+    day.setDate(day.getDate() + offset)
+
+    const upcoming = getPeriodsOn(hours, day)
+      .map(period => period.opens)
+      .filter(opens => opens > at)
+      .sort((a, b) => a.getTime() - b.getTime())
+    if (upcoming.length > 0) return upcoming[0]
+  }
+
+  return null
+}
+
+// "7:30 am", or "10 pm" on the hour; "7 h 30" and "22 h" in French
+function formatClock(time: Date, { t }: I18n): string {
+  const hours = time.getHours()
+  const minutes = time.getMinutes()
+  const clock = {
+    hour12: String(hours % 12 === 0 ? 12 : hours % 12),
+    hour24: String(hours),
+    minutes: String(minutes).padStart(2, '0'),
+    period: hours < 12 ? 'am' : 'pm'
+  }
+
+  return minutes === 0 ? t('clock.hour', clock) : t('clock.minutes', clock)
+}
+
+// "7:30 am" today, "tomorrow 7:30 am", otherwise "Mon 7:30 am"
+function formatOpening(opens: Date, now: Date, i18n: I18n): string {
+  const tomorrow = new Date(now)
+  tomorrow.setDate(tomorrow.getDate() + 1)
+  const time = formatClock(opens, i18n)
+
+  if (opens.toDateString() === now.toDateString()) return i18n.t('opening.today', { time })
+  if (opens.toDateString() === tomorrow.toDateString()) return i18n.t('opening.tomorrow', { time })
+  return i18n.t('opening.day', { day: i18n.formatDate(opens, { weekday: 'short' }), time })
+}
+
+// Status line for something with opening hours, e.g. "Closed now — opens 7:30 am"
+export function describeOpeningStatus(hours: OpeningPeriod[], now: Date, i18n: I18n): { open: boolean, text: string } {
+  const current = getPeriodsOn(hours, now).find(({ opens, closes }) => opens <= now && now < closes)
+  if (current) {
+    return { open: true, text: i18n.t('hours.open', { time: formatClock(current.closes, i18n) }) }
+  }
+
+  const next = getNextOpening(hours, now)
+  return {
+    open: false,
+    text: next ? i18n.t('hours.closedUntil', { time: formatOpening(next, now, i18n) }) : i18n.t('hours.closed')
+  }
+}
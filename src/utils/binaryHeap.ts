@@ -0,0 +1,69 @@
+// Min binary heap used as the priority queue for route searches
+
+interface HeapEntry<T> {
+  item: T
+  priority: number
+}
+
+export class BinaryHeap<T> {
+  private entries: HeapEntry<T>[] = []
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  push(item: T, priority: number): void {
+    this.entries.push({ item, priority })
+    this.bubbleUp(this.entries.length - 1)
+  }
+
+  // Remove and return the item with the lowest priority
+  pop(): T | undefined {
+    const top = this.entries[0]
+    const last = this.entries.pop()
+
+    if (this.entries.length > 0 && last) {
+      this.entries[0] = last
+      this.sinkDown(0)
+    }
+
+    return top?.item
+  }
+
+  private bubbleUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (this.entries[parent].priority <= this.entries[index].priority) break
+
+      this.swap(index, parent)
+      index = parent
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.entries.length
+
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+
+      if (left < length && this.entries[left].priority < this.entries[smallest].priority) {
+        smallest = left
+      }
+      if (right < length && this.entries[right].priority < this.entries[smallest].priority) {
+        smallest = right
+      }
+      if (smallest === index) break
+
+      this.swap(index, smallest)
+      index = smallest
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const entry = this.entries[a]
+    this.entries[a] = this.entries[b]
+    this.entries[b] = entry
+  }
+}
@@ -0,0 +1,137 @@
+// Building data model: the navigation graph, with rooms as annotated graph nodes
+
+import { I18n, createI18n } from './i18n'
+
+// Something a walker can see from a node, used to anchor instructions
+export interface Landmark {
+  name: string
+  relation: 'past' | 'opposite' | 'beside'
+}
+
+export const roomCategories = ['classroom', 'lab', 'library', 'dining', 'office', 'service'] as const
+
+export type RoomCategory = typeof roomCategories[number]
+
+// Display details carried by room nodes
+export interface RoomDetails {
+  name: string
+  category: RoomCategory
+  // Other names people search for, e.g. "Learning Commons" for the library
+  aliases: string[]
+  metadata: Record<string, string>
+}
+
+// Facilities people look for by kind rather than by room number
+export const amenityTypes = ['washroom', 'water-fountain', 'printer', 'microwave', 'accessible-exit'] as const
+
+export type AmenityType = typeof amenityTypes[number]
+
+// Who may pass: everyone, card holders, or staff only
+export type AccessClass = 'public' | 'card' | 'staff-only'
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat'
+
+// A weekly opening period in local time, e.g. weekdays from "07:30" to "22:00"
+export interface OpeningPeriod {
+  days: Weekday[]
+  opens: string
+  closes: string
+}
+
+// Restrictions shared by nodes and edges; a missing field means no restriction
+export interface AccessRules {
+  access?: AccessClass
+  // Outside these periods the node or edge is locked
+  hours?: OpeningPeriod[]
+}
+
+export interface PathNode extends AccessRules {
+  id: string
+  position: [number, number, number]
+  floor: number
+  type: 'room' | 'hallway' | 'stairs' | 'escalator' | 'elevator' | 'entrance'
+  connections: string[]
+  landmarks?: Landmark[]
+  room?: RoomDetails
+  amenities?: AmenityType[]
+}
+
+// A walkable connection, stored once for each direction it can be walked
+export interface Edge extends AccessRules {
+  from: string
+  to: string
+  // Walkable from `from` to `to` only, e.g. an exit-only door or an up escalator
+  oneWay?: boolean
+  // Walking length in metres when it differs from the straight-line distance
+  length?: number
+  // Extra routing cost in metres for doors, ramps or crowded zones
+  penalty?: number
+  // Narrowest door on the edge, in metres
+  doorWidth?: number
+  // Steps to climb or descend along the edge
+  stairCount?: number
+}
+
+// A room node, with its details guaranteed
+export type RoomNode = PathNode & { type: 'room', room: RoomDetails }
+
+export interface FloorInfo {
+  level: number
+  name: string
+}
+
+export interface MapMetadata {
+  id: string
+  name: string
+  version: string
+  updated: string
+  // Node routes start from when the user has not chosen an origin
+  defaultStart: string
+}
+
+// A building as loaded from a map file, with edges resolved into node connections
+export interface Building {
+  schemaVersion: number
+  metadata: MapMetadata
+  floors: FloorInfo[]
+  nodes: Record<string, PathNode>
+  // Keyed "from>to"; every connection has an entry
+  edges: Record<string, Edge>
+}
+
+export function isRoomNode(node: PathNode | undefined): node is RoomNode {
+  return node?.type === 'room' && node.room !== undefined
+}
+
+// All room nodes in the building
+export function getRooms(building: Building): RoomNode[] {
+  return Object.values(building.nodes).filter(isRoomNode)
+}
+
+export function getRoom(building: Building, id: string): RoomNode | undefined {
+  const node = building.nodes[id]
+  return isRoomNode(node) ? node : undefined
+}
+
+// Name to show for any node: a room's display name, then the amenity found
+// there, otherwise its ID. Room names are shown as mapped; amenities are
+// named in the interface language when one is given, otherwise in English.
+export function getDisplayName(building: Building, id: string, i18n: I18n = createI18n('en')): string {
+  const node = building.nodes[id]
+  if (isRoomNode(node)) return node.room.name
+  if (!node?.amenities?.length) return id
+
+  return i18n.t(`amenity.${node.amenities[0]}`)
+}
+
+export function hasAmenity(node: PathNode, amenity: AmenityType): boolean {
+  return node.amenities?.includes(amenity) ?? false
+}
+
+export function getEdge(building: Building, fromId: string, toId: string): Edge | undefined {
+  return building.edges[`${fromId}>${toId}`]
+}
+
+export function getFloorNodes(building: Building, level: number): PathNode[] {
+  return Object.values(building.nodes).filter(node => node.floor === level)
+}
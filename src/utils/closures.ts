@@ -0,0 +1,113 @@
+// Temporary closures layered over the navigation graph (see docs/map-schema.md)
+
+import { Building, PathNode, getDisplayName } from './building'
+import { I18n } from './i18n'
+import { PathStep } from './pathfinding'
+
+// A closed node, or a closed edge given by the two nodes it joins
+export type ClosureTarget = { node: string } | { edge: [string, string] }
+
+export type Closure = ClosureTarget & {
+  id: string
+  // Name used in messages, e.g. "Elevator 1"; defaults to the node's name
+  label?: string
+  // Completes "… is <reason>", e.g. "out of service"
+  reason: string
+  starts?: Date
+  ends?: Date
+}
+
+// Closures in effect at a moment; open-ended windows never start or end
+export function getActiveClosures(closures: Closure[], at: Date): Closure[] {
+  return closures.filter(closure =>
+    (!closure.starts || closure.starts <= at) && (!closure.ends || at < closure.ends)
+  )
+}
+
+function edgeKey(a: string, b: string): string {
+  return [a, b].sort().join('|')
+}
+
+// Every edge a set of closures takes out of the graph, once per pair of nodes.
+// Edges naming nodes the map does not have, e.g. after a map update, are skipped.
+export function getClosedEdges(map: Building, closures: Closure[]): [string, string][] {
+  const closedNodes = getClosedNodes(closures)
+  const edges = new Map<string, [string, string]>()
+
+  for (const closure of closures) {
+    if ('edge' in closure && closure.edge.every(id => map.nodes[id])) {
+      edges.set(edgeKey(...closure.edge), closure.edge)
+    }
+  }
+
+  // Closing a node closes the edges into it as well as those out of it
+  for (const { from, to } of Object.values(map.edges)) {
+    if (closedNodes.has(from) || closedNodes.has(to)) {
+      edges.set(edgeKey(from, to), [from, to])
+    }
+  }
+
+  return Array.from(edges.values())
+}
+
+export function getClosedNodes(closures: Closure[]): Set<string> {
+  return new Set(closures.flatMap(closure => ('node' in closure ? [closure.node] : [])))
+}
+
+// The building with closed nodes and edges disconnected; closed nodes stay on
+// the map so they can still be shown, but no route can reach them
+export function applyClosures(map: Building, closures: Closure[]): Building {
+  if (closures.length === 0) return map
+
+  const closed = new Set(getClosedEdges(map, closures).map(([a, b]) => edgeKey(a, b)))
+  const nodes: Record<string, PathNode> = {}
+
+  for (const node of Object.values(map.nodes)) {
+    nodes[node.id] = {
+      ...node,
+      connections: node.connections.filter(id => !closed.has(edgeKey(node.id, id)))
+    }
+  }
+
+  return { ...map, nodes }
+}
+
+// Closures that would block a route planned without them
+export function findBlockingClosures(closures: Closure[], steps: PathStep[]): Closure[] {
+  if (steps.length === 0) return []
+
+  const path = [steps[0].from, ...steps.flatMap(step => [...step.via, step.to])]
+  const nodes = new Set(path)
+  const edges = new Set(path.slice(1).map((id, i) => edgeKey(path[i], id)))
+
+  return closures.filter(closure =>
+    'node' in closure ? nodes.has(closure.node) : edges.has(edgeKey(...closure.edge))
+  )
+}
+
+// "until Friday" within the coming week, "until 5:00 PM" later the same day, otherwise a date
+function formatUntil(ends: Date, now: Date, { t, formatDate }: I18n): string {
+  const days = (ends.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+
+  if (ends.toDateString() === now.toDateString()) {
+    return t('until.time', { time: formatDate(ends, { hour: 'numeric', minute: '2-digit' }) })
+  }
+  if (days < 7) {
+    return t('until.day', { day: formatDate(ends, { weekday: 'long' }) })
+  }
+  return t('until.date', { date: formatDate(ends, { month: 'short', day: 'numeric' }) })
+}
+
+// Sentence for a closure, e.g. "Elevator 1 is out of service until Friday".
+// Labels and reasons come from the closures file and are shown as written.
+export function describeClosure(map: Building, closure: Closure, now: Date, i18n: I18n): string {
+  const label = closure.label ?? ('node' in closure
+    ? getDisplayName(map, closure.node, i18n)
+    : i18n.t('closure.edge', {
+      from: getDisplayName(map, closure.edge[0], i18n),
+      to: getDisplayName(map, closure.edge[1], i18n)
+    }))
+  const until = closure.ends ? formatUntil(closure.ends, now, i18n) : i18n.t('until.further')
+
+  return i18n.t('closure.sentence', { label, reason: closure.reason, until })
+}
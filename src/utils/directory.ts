@@ -0,0 +1,26 @@
+// Directory of people, departments and services, each found in a map room
+
+// In the order entries are listed, people first
+export const directoryKinds = ['person', 'department', 'service'] as const
+
+export type DirectoryKind = typeof directoryKinds[number]
+
+export interface DirectoryEntry {
+  id: string
+  kind: DirectoryKind
+  name: string
+  // Job title or one-line description, e.g. "Professor of Computer Science"
+  title?: string
+  // Room node the entry is found in
+  roomId: string
+  aliases: string[]
+  // Free-form contact details such as phone or email
+  contact: Record<string, string>
+}
+
+// Entries located in a room, people first
+export function getRoomEntries(directory: DirectoryEntry[], roomId: string): DirectoryEntry[] {
+  return directory
+    .filter(entry => entry.roomId === roomId)
+    .sort((a, b) => directoryKinds.indexOf(a.kind) - directoryKinds.indexOf(b.kind))
+}
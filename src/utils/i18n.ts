@@ -0,0 +1,81 @@
+// Interface language: messages looked up by key, with the number and date
+// formats that go with them. Sentences are put together when shown, so
+// switching language rewords everything already on screen.
+
+import { en } from './locales/en'
+import { fr } from './locales/fr'
+
+export type Locale = 'en' | 'fr'
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, string>
+export type MessageParams = Record<string, string | number>
+
+export interface I18n {
+  locale: Locale
+  // A message with its {name} placeholders filled in
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatNumber: (value: number, digits?: number) => string
+  formatDate: (date: Date, options: Intl.DateTimeFormatOptions) => string
+}
+
+// Each language named in itself, for the language switch
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  fr: 'Français'
+}
+
+const catalogs: Record<Locale, Messages> = { en, fr }
+
+// Regional formats: Canadian French, and the US English formats the app has
+// always used. Also the language that instructions are read aloud in.
+export const languageTags: Record<Locale, string> = {
+  en: 'en-US',
+  fr: 'fr-CA'
+}
+
+const STORAGE_KEY = 'slc-navigation:locale'
+
+function isLocale(value: unknown): value is Locale {
+  return value === 'en' || value === 'fr'
+}
+
+export function createI18n(locale: Locale): I18n {
+  const messages = catalogs[locale]
+  const intlLocale = languageTags[locale]
+  const formatNumber = (value: number, digits?: number) => value.toLocaleString(intlLocale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  })
+
+  return {
+    locale,
+    t: (key, params = {}) => messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name]
+      if (value === undefined) return placeholder
+      return typeof value === 'number' ? formatNumber(value) : value
+    }),
+    formatNumber,
+    formatDate: (date, options) => date.toLocaleString(intlLocale, options)
+  }
+}
+
+// The language picked last time, otherwise the browser's if it is French
+export function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (isLocale(saved)) return saved
+  } catch {
+    // Storage can be blocked; fall back to the browser language
+  }
+
+  return navigator.language.toLowerCase().startsWith('fr') ? 'fr' : 'en'
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale)
+  } catch {
+    // Not remembered, but the switch still applies to this visit
+  }
+}
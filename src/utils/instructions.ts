@@ -0,0 +1,102 @@
+// Words for routes: turn-by-turn instructions and route summaries, built from
+// step data in the reader's language
+
+import { Building, getDisplayName, isRoomNode } from './building'
+import { I18n } from './i18n'
+import { CompassDirection, PathStep, RoutingProfile, Surrounding, TurnType, findSurroundings, getConnectors } from './pathfinding'
+
+// Opening words of an instruction for a turn
+function describeTurn(turn: TurnType, direction: CompassDirection, { t }: I18n): string {
+  return turn === 'start' ? t('turn.start', { direction: t(`direction.${direction}`) }) : t(`turn.${turn}`)
+}
+
+// A turn phrase continuing a sentence: "Turn left" becomes "turn left"
+function lowerFirst(text: string, { locale }: I18n): string {
+  return text.charAt(0).toLocaleLowerCase(locale) + text.slice(1)
+}
+
+// Sentence for a step, mentioning the turn that follows a hallway walk
+export function describeStep(map: Building, step: PathStep, i18n: I18n): string {
+  const { t } = i18n
+  const to = map.nodes[step.to]
+  // A turn the step before ended on ("…, then bear left") is not repeated
+  const turn = step.turnAnnounced ? t('turn.announced') : describeTurn(step.turn, step.direction, i18n)
+
+  if (step.floorChange) {
+    return t(`step.${step.floorChange}`, { connector: t(`node.${to.type}`), floor: to.floor })
+  }
+  if (to.type === 'room') {
+    return t('step.arrive', { turn, place: getDisplayName(map, to.id, i18n) })
+  }
+  if (to.type !== 'hallway') {
+    return t('step.reach', { turn, place: t(`toNode.${to.type}`) })
+  }
+
+  const meters = Math.max(1, Math.round(step.distance))
+  const walk = step.landmark
+    ? t('step.walkPast', { turn, meters, landmark: t(`landmark.${step.landmark.relation}`, { name: step.landmark.name }) })
+    : t('step.walk', { turn, meters })
+  if (!step.followedBy) return walk
+
+  const then = describeTurn(step.followedBy.turn, step.followedBy.direction, i18n)
+  return t('step.then', { instruction: walk, turn: lowerFirst(then, i18n) })
+}
+
+function describeConnectors(map: Building, steps: PathStep[], { t }: I18n): string {
+  return getConnectors(map, steps).map(type => t(`node.${type}`)).join(` ${t('list.and')} `)
+}
+
+// Short label telling alternative routes apart, e.g. "via the stairs"
+export function describeRoute(map: Building, steps: PathStep[], i18n: I18n): string {
+  const { t } = i18n
+  if (getConnectors(map, steps).length > 0) return t('route.via', { connectors: describeConnectors(map, steps, i18n) })
+
+  // Same-floor routes are told apart by the first thing they pass
+  const landmark = steps.find(step => step.landmark)?.landmark
+  return landmark ? t(`landmark.${landmark.relation}`, { name: landmark.name }) : t('route.sameFloor')
+}
+
+// Explain in one sentence why a route looks the way it does under a profile
+export function explainRoute(map: Building, steps: PathStep[], profile: RoutingProfile, i18n: I18n): string {
+  const { t } = i18n
+  const connectors = getConnectors(map, steps)
+
+  if (connectors.length === 0) return t('explain.sameFloor')
+
+  const via = describeConnectors(map, steps, i18n)
+  if (profile === 'prefer-stairs' && connectors.includes('elevator')) {
+    return t('explain.prefer-stairs-elevator', { via })
+  }
+  return t(`explain.${profile}`, { via })
+}
+
+// A nearby place with how far away it is and which way, e.g. "Stairs, 2 m to your left"
+function describeSurrounding(map: Building, { id, distance, direction, side }: Surrounding, i18n: I18n): string {
+  const { t } = i18n
+  const node = map.nodes[id]
+  // Room numbers are added unless the name already carries them, e.g. "Biology Lab B101"
+  const place = isRoomNode(node)
+    ? node.room.name.includes(id) ? node.room.name : t('surroundings.room', { name: node.room.name, id })
+    : node.type === 'hallway' ? getDisplayName(map, id, i18n) : t(`nodeLabel.${node.type}`)
+  const way = side ? t(`side.${side}`) : t('side.compass', { direction: t(`direction.${direction}`) })
+  return t('surroundings.place', { place, meters: Math.max(1, Math.round(distance)), way })
+}
+
+// Where the walker is and what is around them, for readers who cannot see the
+// 3D map. Sides are relative to the heading when there is one.
+export function describeSurroundings(map: Building, nodeId: string, heading: number | null, i18n: I18n): string {
+  const { t } = i18n
+  const here = map.nodes[nodeId]
+  const at = here.type === 'hallway'
+    ? t('surroundings.inHallway', { floor: here.floor })
+    : t('surroundings.at', {
+      place: isRoomNode(here) ? getDisplayName(map, nodeId, i18n) : t(`node.${here.type}`),
+      floor: here.floor
+    })
+
+  const nearby = findSurroundings(map, nodeId, heading)
+  if (nearby.length === 0) return `${at} ${t('surroundings.none')}`
+
+  const places = nearby.map(surrounding => describeSurrounding(map, surrounding, i18n)).join(t('list.separator'))
+  return `${at} ${t('surroundings.nearby', { places })}`
+}
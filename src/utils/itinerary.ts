@@ -0,0 +1,164 @@
+// Multi-stop trip planning on top of the route search
+
+import { Building } from './building'
+import { searchRoute, buildSteps, PathStep, RouteOptions, RouteResult } from './pathfinding'
+
+export interface ItineraryOptions extends RouteOptions {
+  // Reorder the stops to minimise total walking cost; otherwise visit them as given
+  optimizeOrder?: boolean
+}
+
+export type ItineraryResult =
+  | { status: 'ok', order: string[], steps: PathStep[], cost: number }
+  | { status: 'no-route', from: string, to: string, route: RouteResult }
+
+// Up to this many stops the visiting order is solved exactly; beyond it a
+// nearest-neighbour tour improved by 2-opt is used
+const EXACT_ORDER_LIMIT = 8
+
+// Walking cost between every pair of points; Infinity where there is no route
+function buildCostMatrix(map: Building, points: string[], options: RouteOptions): number[][] {
+  return points.map(from => points.map(to => {
+    if (from === to) return 0
+    const result = searchRoute(map, from, to, options)
+    return result.status === 'ok' ? result.cost : Infinity
+  }))
+}
+
+// Held-Karp dynamic programme over subsets; point 0 is the fixed start and the
+// tour may end at any stop. Returns stop indices (1-based into the matrix).
+function solveExactOrder(costs: number[][]): number[] {
+  const count = costs.length - 1
+  const full = (1 << count) - 1
+  const best: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(Infinity))
+  const parent: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(-1))
+
+  for (let j = 0; j < count; j++) {
+    best[1 << j][j] = costs[0][j + 1]
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < count; j++) {
+      if (!(mask & (1 << j)) || best[mask][j] === Infinity) continue
+
+      for (let k = 0; k < count; k++) {
+        if (mask & (1 << k)) continue
+        const next = mask | (1 << k)
+        const cost = best[mask][j] + costs[j + 1][k + 1]
+        if (cost < best[next][k]) {
+          best[next][k] = cost
+          parent[next][k] = j
+        }
+      }
+    }
+  }
+
+  let last = 0
+  for (let j = 1; j < count; j++) {
+    if (best[full][j] < best[full][last]) last = j
+  }
+
+  // Some stop cannot be reached: keep the given order so the caller reports the broken leg
+  if (best[full][last] === Infinity) {
+    return costs.slice(1).map((_, i) => i + 1)
+  }
+
+  const order: number[] = []
+  let mask = full
+  while (last !== -1) {
+    order.unshift(last + 1)
+    const previous = parent[mask][last]
+    mask &= ~(1 << last)
+    last = previous
+  }
+
+  return order
+}
+
+function tourCost(costs: number[][], order: number[]): number {
+  let total = 0
+  let previous = 0
+  for (const index of order) {
+    total += costs[previous][index]
+    previous = index
+  }
+  return total
+}
+
+// Greedy tour from the start, then 2-opt segment reversals until none helps
+function solveHeuristicOrder(costs: number[][]): number[] {
+  const remaining = new Set(costs.slice(1).map((_, i) => i + 1))
+  const order: number[] = []
+  let current = 0
+
+  while (remaining.size > 0) {
+    let nearest = -1
+    for (const index of remaining) {
+      if (nearest === -1 || costs[current][index] < costs[current][nearest]) nearest = index
+    }
+    order.push(nearest)
+    remaining.delete(nearest)
+    current = nearest
+  }
+
+  let improved = true
+  while (improved) {
+    improved = false
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]
+        if (tourCost(costs, candidate) < tourCost(costs, order)) {
+          order.splice(0, order.length, ...candidate)
+          improved = true
+        }
+      }
+    }
+  }
+
+  return order
+}
+
+// Order the stops to visit after leaving the start
+function orderStops(map: Building, startId: string, stops: string[], options: RouteOptions): string[] {
+  const points = [startId, ...stops]
+  const costs = buildCostMatrix(map, points, options)
+  const order = stops.length <= EXACT_ORDER_LIMIT ? solveExactOrder(costs) : solveHeuristicOrder(costs)
+  return order.map(index => points[index])
+}
+
+// Plan one continuous route from the start through every stop. Each leg's
+// arrival step is marked with its 1-based stop number in `waypoint`. A stop
+// at the point just left, such as the start, is dropped from `order`, as
+// there would be no step to mark.
+export function planItinerary(
+  map: Building,
+  startId: string,
+  stops: string[],
+  options: ItineraryOptions = {}
+): ItineraryResult {
+  const order = (options.optimizeOrder && stops.length > 1
+    ? orderStops(map, startId, stops, options)
+    : stops
+  ).filter((stop, index, ordered) => stop !== (index === 0 ? startId : ordered[index - 1]))
+  const steps: PathStep[] = []
+  let cost = 0
+  let from = startId
+
+  for (const [index, to] of order.entries()) {
+    const route = searchRoute(map, from, to, options)
+    if (route.status !== 'ok') {
+      return { status: 'no-route', from, to, route }
+    }
+
+    const legSteps = buildSteps(map, route.nodes)
+    if (legSteps.length > 0) {
+      legSteps[legSteps.length - 1].waypoint = index + 1
+    }
+
+    steps.push(...legSteps)
+    cost += route.cost
+    from = to
+  }
+
+  return { status: 'ok', order, steps, cost }
+}
@@ -0,0 +1,260 @@
+// English interface messages; {name} marks a value filled in when shown
+export const en = {
+  // App
+  'app.subtitle': '3D Indoor Navigation',
+  'app.language': 'Language',
+  'app.loading': 'Loading map…',
+  'app.loadFailed': 'Map could not be loaded',
+
+  // Floors and distances
+  'floor.picker': 'Floor:',
+  'floor.number': 'Floor {floor}',
+  'distance.meters': '{distance} m',
+  'time.minutes': '~{minutes} min',
+  'time.walk': 'about {minutes} min walk',
+  'clock.hour': '{hour12} {period}',
+  'clock.minutes': '{hour12}:{minutes} {period}',
+
+  // Place kinds, with the article they take in a sentence
+  'node.room': 'the room',
+  'node.hallway': 'the hallway',
+  'node.stairs': 'the stairs',
+  'node.escalator': 'the escalator',
+  'node.elevator': 'the elevator',
+  'node.entrance': 'the entrance',
+  'toNode.stairs': 'to the stairs',
+  'toNode.escalator': 'to the escalator',
+  'toNode.elevator': 'to the elevator',
+  'toNode.entrance': 'to the entrance',
+  // Labels drawn over the 3D map
+  'nodeLabel.room': 'Room',
+  'nodeLabel.stairs': 'Stairs',
+  'nodeLabel.escalator': 'Escalator',
+  'nodeLabel.elevator': 'Elevator',
+  'nodeLabel.entrance': 'Entrance',
+
+  'category.classroom': 'Classroom',
+  'category.lab': 'Lab',
+  'category.library': 'Library',
+  'category.dining': 'Dining',
+  'category.office': 'Office',
+  'category.service': 'Services',
+  'category.person': 'People',
+  'category.department': 'Departments',
+
+  'amenity.washroom': 'Washroom',
+  'amenity.water-fountain': 'Water fountain',
+  'amenity.printer': 'Printer',
+  'amenity.microwave': 'Microwave',
+  'amenity.accessible-exit': 'Accessible exit',
+
+  'profile.shortest': 'Shortest',
+  'profile.step-free': 'Step-free',
+  'profile.avoid-elevators': 'No elevators',
+  'profile.prefer-stairs': 'Prefer stairs',
+
+  'role.visitor': 'Visitor',
+  'role.student': 'Student',
+  'role.staff': 'Staff',
+  'access.public': 'Public',
+  'access.card': 'Card access',
+  'access.staff-only': 'Staff only',
+  'access.closedTo.visitor': 'not open to visitors',
+  'access.closedTo.student': 'not open to students',
+  'access.closedTo.staff': 'not open to staff',
+
+  // Turn-by-turn instructions
+  'direction.north': 'north',
+  'direction.northeast': 'northeast',
+  'direction.east': 'east',
+  'direction.southeast': 'southeast',
+  'direction.south': 'south',
+  'direction.southwest': 'southwest',
+  'direction.west': 'west',
+  'direction.northwest': 'northwest',
+  'turn.start': 'Head {direction}',
+  'turn.continue': 'Continue straight',
+  'turn.slight-left': 'Bear left',
+  'turn.left': 'Turn left',
+  'turn.sharp-left': 'Make a sharp left',
+  'turn.slight-right': 'Bear right',
+  'turn.right': 'Turn right',
+  'turn.sharp-right': 'Make a sharp right',
+  'turn.u-turn': 'Make a U-turn',
+  'turn.announced': 'Carry on',
+  'landmark.past': 'past {name}',
+  'landmark.opposite': 'opposite {name}',
+  'landmark.beside': 'beside {name}',
+  'step.up': 'Take {connector} up to floor {floor}',
+  'step.down': 'Take {connector} down to floor {floor}',
+  'step.arrive': '{turn} to arrive at {place}',
+  'step.reach': '{turn} {place}',
+  'step.walk': '{turn} and walk {meters} m',
+  'step.walkPast': '{turn} and walk {meters} m {landmark}',
+  'step.then': '{instruction}, then {turn}',
+
+  // Route summaries
+  'list.and': 'and',
+  'list.separator': '; ',
+  'route.via': 'via {connectors}',
+  'route.sameFloor': 'on this floor',
+  'explain.sameFloor': 'Destination is on the same floor, so no stairs or elevator are needed.',
+  'explain.step-free': 'Step-free route: stairs are excluded, so it changes floors using {via}.',
+  'explain.avoid-elevators': 'Elevators are excluded, so it changes floors using {via}.',
+  'explain.prefer-stairs': 'Stairs are preferred, so it changes floors using {via}.',
+  'explain.prefer-stairs-elevator': 'Uses {via} because no reasonable stairs route exists.',
+  'explain.shortest': 'Shortest walking distance, changing floors using {via}.',
+  'notice.unknownNode': 'Unknown location: {ids}. Check the room number and try again.',
+  'notice.unreachable': 'No route from {origin} to {destination} — nearest reachable point is {nearest}.',
+  'notice.unreachableWith': 'No route from {origin} to {destination} with the {profile} option — nearest reachable point is {nearest}.',
+  'notice.arrived': 'You are already at {destination}.',
+
+  // Closures and opening hours
+  'closure.edge': 'The way between {from} and {to}',
+  'closure.sentence': '{label} is {reason} {until}',
+  'closure.reroutedVia': '{closure}; rerouted {route}',
+  'closure.reroutedAround': '{closure}; rerouted around it',
+  'until.time': 'until {time}',
+  'until.day': 'until {day}',
+  'until.date': 'until {date}',
+  'until.further': 'until further notice',
+  'hours.open': 'Open now — closes {time}',
+  'hours.closedUntil': 'Closed now — opens {time}',
+  'hours.closed': 'Closed now',
+  'opening.today': '{time}',
+  'opening.tomorrow': 'tomorrow {time}',
+  'opening.day': '{day} {time}',
+
+  // Search
+  'search.from': 'From: {place}',
+  'search.destination': 'Search for a room, person or service...',
+  'search.addStop': 'Add a stop (e.g., LIB, CAFE)...',
+  'search.rooms': 'Rooms',
+  'search.noMatches': 'No matching places',
+  'search.count': '{count} suggestions',
+  'search.useCurrentLocation': 'Start from my current location',
+  'search.swap': 'Swap start and destination',
+  'nearby.title': 'Nearest: {amenity}',
+  'nearby.none': 'None reachable from {origin} right now.',
+
+  // Trips and timetables
+  'trip.multiStop': 'Multi-stop',
+  'trip.stops': 'Trip stops',
+  'trip.bestOrder': 'Best order',
+  'trip.empty': 'Search above to add stops.',
+  'trip.stop': 'Stop {stop}',
+  'trip.stopOf': 'Stop {stop} of {count}',
+  'timetable.button': 'Timetable',
+  'timetable.import': 'Import your class timetable (.ics)',
+  'timetable.notCalendar': 'This is not an iCalendar (.ics) file',
+  'timetable.unreadable': 'The timetable could not be read.',
+  'timetable.nextClass': 'Next class',
+  'timetable.remove': 'Remove timetable',
+  'timetable.noMore': 'No more classes in this timetable.',
+  'timetable.noLocation': 'No location',
+  'timetable.notOnMap': 'This location is not on the map.',
+  'timetable.from': 'From {place}',
+  'timetable.walkBetween': '~{minutes} min walk, {available} min between classes',
+  'timetable.walkUntil': '~{minutes} min walk, {available} min until it starts',
+  'timetable.late': 'The walk takes about {minutes} min but you only have {available} min; you may be late.',
+  'timetable.route': 'Route to class',
+
+  // Directions
+  'directions.title': 'Turn-by-Turn Directions',
+  'directions.floorChange': 'Floor Change',
+  'directions.previous': '← Previous',
+  'directions.next': 'Next →',
+  'directions.print': 'Print directions or save them as a PDF',
+  'routes.title': 'Choose a Route',
+  'routes.option': '{route}, {minutes} min',
+  'routes.details': '{distance} • {steps} steps',
+  'routes.best': 'Best',
+
+  // Spoken directions
+  'voice.unmute': 'Read directions aloud',
+  'voice.mute': 'Stop reading directions aloud',
+  'voice.repeat': 'Repeat this step',
+  'voice.settings': 'Voice settings',
+  'voice.rate': 'Speed: {rate}×',
+  'voice.voice': 'Voice',
+  'voice.default': 'Default voice',
+  'voice.floorChangeAhead': 'Floor change ahead: {instruction}',
+
+  // Text view and screen readers
+  'a11y.textView': 'Text view',
+  'a11y.mapLabel': '3D map of floor {floor}. Use the text view for a description.',
+  'a11y.mapTitle': 'Building map as text',
+  'a11y.floors': 'Floors and places',
+  'a11y.listHelp': 'Use the arrow keys to move between floors and places, and Enter to get directions.',
+  'a11y.placeCount': '{count} places',
+  'a11y.here': 'you are here',
+  'a11y.destination': 'destination',
+  'a11y.step': 'Step {step} of {count}: {instruction}',
+  'a11y.routeChoices': '{count} routes to choose from',
+  'a11y.surroundings': 'Around you',
+  'surroundings.inHallway': 'You are in a hallway on floor {floor}.',
+  'surroundings.at': 'You are at {place} on floor {floor}.',
+  'surroundings.nearby': 'Nearby: {places}.',
+  'surroundings.none': 'Nothing else is mapped nearby.',
+  'surroundings.room': '{name} ({id})',
+  'surroundings.place': '{place}, {meters} m {way}',
+  'side.ahead': 'ahead',
+  'side.left': 'to your left',
+  'side.right': 'to your right',
+  'side.behind': 'behind you',
+  'side.compass': 'to the {direction}',
+
+  // Destination
+  'destination.room': 'Room {room}',
+  'destination.here': 'Here: {names}',
+  'destination.step': 'Step {step} of {count}',
+  'destination.share': 'QR code for this route',
+  'share.route': 'Share this route',
+  'share.room': 'Share this room',
+  'share.routeLabel': 'Route from {from} to {to}',
+  'share.qrLabel': 'QR code: {label}',
+  'share.posters': 'Posters for every room',
+
+  // Room posters
+  'poster.scan': 'Scan to navigate from here',
+  'poster.link': 'Link to navigate from {place}',
+  'poster.count': '{count} posters for {map} (map {version})',
+
+  // Map controls
+  'controls.rotate': '🖱️ Click & drag to rotate',
+  'controls.zoom': '🔍 Scroll to zoom',
+  'controls.pan': '⌨️ Right-click & drag to pan',
+
+  // Offline and updates
+  'offline.notice': 'Offline: directions use the saved map',
+  'update.map': 'Updated map available (version {version})',
+  'update.mapApply': 'Update',
+  'update.app': 'A new version of the app is ready',
+  'update.appReload': 'Reload',
+  'update.closuresFailed': 'Closures could not be refreshed; routes may use out-of-date closures',
+  'update.directoryFailed': 'The directory could not be refreshed; search may show out-of-date entries',
+
+  // AR view
+  'ar.cameraTitle': 'Camera Access Required',
+  'ar.cameraText': 'Please allow camera access to use AR navigation',
+  'ar.retry': 'Try Again',
+  'ar.cancel': 'Cancel',
+  'ar.navigatingTo': 'Navigating to',
+  'ar.step': 'Step',
+  'ar.previous': 'Previous',
+  'ar.next': 'Next',
+  'ar.exit': 'Exit AR',
+
+  // Printed directions
+  'sheet.title': 'Directions to {to}',
+  'sheet.from': 'From {from} • {map}',
+  'sheet.totals': '{distance} • {time}',
+  'sheet.printed': 'Printed {date}',
+  'sheet.snapshot': 'Route on {floor}',
+  'sheet.north': 'N',
+  'sheet.up': 'Take {connector} up to {floor}',
+  'sheet.down': 'Take {connector} down to {floor}',
+  'sheet.downloadPdf': 'Download PDF',
+  'sheet.print': 'Print',
+  'sheet.close': 'Close print view'
+}
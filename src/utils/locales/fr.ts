@@ -0,0 +1,262 @@
+import { Messages } from '../i18n'
+
+// French interface messages, key for key with en.ts
+export const fr: Messages = {
+  // App
+  'app.subtitle': 'Navigation intérieure 3D',
+  'app.language': 'Langue',
+  'app.loading': 'Chargement du plan…',
+  'app.loadFailed': 'Le plan n’a pas pu être chargé',
+
+  // Floors and distances
+  'floor.picker': 'Étage :',
+  'floor.number': 'Étage {floor}',
+  'distance.meters': '{distance} m',
+  'time.minutes': '~{minutes} min',
+  'time.walk': 'environ {minutes} min de marche',
+  'clock.hour': '{hour24} h',
+  'clock.minutes': '{hour24} h {minutes}',
+
+  // Place kinds, with the article they take in a sentence
+  'node.room': 'la salle',
+  'node.hallway': 'le couloir',
+  'node.stairs': 'l’escalier',
+  'node.escalator': 'l’escalier mécanique',
+  'node.elevator': 'l’ascenseur',
+  'node.entrance': 'l’entrée',
+  'toNode.stairs': 'jusqu’à l’escalier',
+  'toNode.escalator': 'jusqu’à l’escalier mécanique',
+  'toNode.elevator': 'jusqu’à l’ascenseur',
+  'toNode.entrance': 'jusqu’à l’entrée',
+  // Labels drawn over the 3D map
+  'nodeLabel.room': 'Salle',
+  'nodeLabel.stairs': 'Escalier',
+  'nodeLabel.escalator': 'Escalier mécanique',
+  'nodeLabel.elevator': 'Ascenseur',
+  'nodeLabel.entrance': 'Entrée',
+
+  'category.classroom': 'Salle de classe',
+  'category.lab': 'Laboratoire',
+  'category.library': 'Bibliothèque',
+  'category.dining': 'Restauration',
+  'category.office': 'Bureau',
+  'category.service': 'Services',
+  'category.person': 'Personnes',
+  'category.department': 'Départements',
+
+  'amenity.washroom': 'Toilettes',
+  'amenity.water-fountain': 'Fontaine d’eau',
+  'amenity.printer': 'Imprimante',
+  'amenity.microwave': 'Micro-ondes',
+  'amenity.accessible-exit': 'Sortie accessible',
+
+  'profile.shortest': 'Plus court',
+  'profile.step-free': 'Sans marches',
+  'profile.avoid-elevators': 'Sans ascenseur',
+  'profile.prefer-stairs': 'Par l’escalier',
+
+  'role.visitor': 'Visiteur',
+  'role.student': 'Étudiant',
+  'role.staff': 'Personnel',
+  'access.public': 'Public',
+  'access.card': 'Accès par carte',
+  'access.staff-only': 'Personnel seulement',
+  'access.closedTo.visitor': 'interdit aux visiteurs',
+  'access.closedTo.student': 'interdit aux étudiants',
+  'access.closedTo.staff': 'interdit au personnel',
+
+  // Turn-by-turn instructions
+  'direction.north': 'le nord',
+  'direction.northeast': 'le nord-est',
+  'direction.east': 'l’est',
+  'direction.southeast': 'le sud-est',
+  'direction.south': 'le sud',
+  'direction.southwest': 'le sud-ouest',
+  'direction.west': 'l’ouest',
+  'direction.northwest': 'le nord-ouest',
+  'turn.start': 'Dirigez-vous vers {direction}',
+  'turn.continue': 'Continuez tout droit',
+  'turn.slight-left': 'Prenez légèrement à gauche',
+  'turn.left': 'Tournez à gauche',
+  'turn.sharp-left': 'Tournez franchement à gauche',
+  'turn.slight-right': 'Prenez légèrement à droite',
+  'turn.right': 'Tournez à droite',
+  'turn.sharp-right': 'Tournez franchement à droite',
+  'turn.u-turn': 'Faites demi-tour',
+  'turn.announced': 'Continuez',
+  'landmark.past': 'en passant devant {name}',
+  'landmark.opposite': 'en face de {name}',
+  'landmark.beside': 'à côté de {name}',
+  'step.up': 'Prenez {connector} pour monter à l’étage {floor}',
+  'step.down': 'Prenez {connector} pour descendre à l’étage {floor}',
+  'step.arrive': '{turn} pour arriver à {place}',
+  'step.reach': '{turn} {place}',
+  'step.walk': '{turn} et marchez {meters} m',
+  'step.walkPast': '{turn} et marchez {meters} m {landmark}',
+  'step.then': '{instruction}, puis {turn}',
+
+  // Route summaries
+  'list.and': 'et',
+  'list.separator': ' ; ',
+  'route.via': 'par {connectors}',
+  'route.sameFloor': 'sur cet étage',
+  'explain.sameFloor': 'La destination est au même étage : ni escalier ni ascenseur n’est nécessaire.',
+  'explain.step-free': 'Trajet sans marches : les escaliers sont exclus, il change donc d’étage par {via}.',
+  'explain.avoid-elevators': 'Les ascenseurs sont exclus, il change donc d’étage par {via}.',
+  'explain.prefer-stairs': 'L’escalier est privilégié, il change donc d’étage par {via}.',
+  'explain.prefer-stairs-elevator': 'Passe par {via}, faute de trajet raisonnable par l’escalier.',
+  'explain.shortest': 'Trajet le plus court à pied, en changeant d’étage par {via}.',
+  'notice.unknownNode': 'Lieu inconnu : {ids}. Vérifiez le numéro de salle et réessayez.',
+  'notice.unreachable': 'Aucun trajet de {origin} à {destination} — le point accessible le plus proche est {nearest}.',
+  'notice.unreachableWith': 'Aucun trajet de {origin} à {destination} avec l’option {profile} — le point accessible le plus proche est {nearest}.',
+  'notice.arrived': 'Vous êtes déjà à {destination}.',
+
+  // Closures and opening hours
+  'closure.edge': 'Le passage entre {from} et {to}',
+  'closure.sentence': '{label} : {reason} {until}',
+  'closure.reroutedVia': '{closure} ; trajet dévié {route}',
+  'closure.reroutedAround': '{closure} ; trajet dévié pour l’éviter',
+  'until.time': 'jusqu’à {time}',
+  'until.day': 'jusqu’à {day}',
+  'until.date': 'jusqu’au {date}',
+  'until.further': 'jusqu’à nouvel ordre',
+  'hours.open': 'Ouvert — ferme à {time}',
+  'hours.closedUntil': 'Fermé — ouvre {time}',
+  'hours.closed': 'Fermé',
+  'opening.today': 'à {time}',
+  'opening.tomorrow': 'demain à {time}',
+  'opening.day': '{day} à {time}',
+
+  // Search
+  'search.from': 'Départ : {place}',
+  'search.destination': 'Rechercher une salle, une personne ou un service...',
+  'search.addStop': 'Ajouter un arrêt (p. ex. LIB, CAFE)...',
+  'search.rooms': 'Salles',
+  'search.noMatches': 'Aucun lieu correspondant',
+  'search.count': '{count} suggestions',
+  'search.useCurrentLocation': 'Partir de ma position actuelle',
+  'search.swap': 'Inverser le départ et la destination',
+  'nearby.title': 'Le plus proche : {amenity}',
+  'nearby.none': 'Aucun accessible depuis {origin} pour le moment.',
+
+  // Trips and timetables
+  'trip.multiStop': 'Plusieurs arrêts',
+  'trip.stops': 'Arrêts du trajet',
+  'trip.bestOrder': 'Meilleur ordre',
+  'trip.empty': 'Recherchez ci-dessus pour ajouter des arrêts.',
+  'trip.stop': 'Arrêt {stop}',
+  'trip.stopOf': 'Arrêt {stop} sur {count}',
+  'timetable.button': 'Horaire',
+  'timetable.import': 'Importer votre horaire de cours (.ics)',
+  'timetable.notCalendar': 'Ce fichier n’est pas au format iCalendar (.ics)',
+  'timetable.unreadable': 'L’horaire n’a pas pu être lu.',
+  'timetable.nextClass': 'Prochain cours',
+  'timetable.remove': 'Retirer l’horaire',
+  'timetable.noMore': 'Il ne reste aucun cours dans cet horaire.',
+  'timetable.noLocation': 'Aucun lieu',
+  'timetable.notOnMap': 'Ce lieu ne figure pas sur le plan.',
+  'timetable.from': 'Depuis {place}',
+  'timetable.walkBetween': '~{minutes} min de marche, {available} min entre les cours',
+  'timetable.walkUntil': '~{minutes} min de marche, {available} min avant le début',
+  'timetable.late': 'Le trajet prend environ {minutes} min mais vous n’avez que {available} min ; vous risquez d’être en retard.',
+  'timetable.route': 'Itinéraire vers le cours',
+
+  // Directions
+  'directions.title': 'Itinéraire pas à pas',
+  'directions.floorChange': 'Changement d’étage',
+  'directions.previous': '← Précédent',
+  'directions.next': 'Suivant →',
+  'directions.print': 'Imprimer l’itinéraire ou l’enregistrer en PDF',
+  'routes.title': 'Choisir un trajet',
+  'routes.option': '{route}, {minutes} min',
+  'routes.details': '{distance} • {steps} étapes',
+  'routes.best': 'Meilleur',
+
+  // Spoken directions
+  'voice.unmute': 'Lire l’itinéraire à voix haute',
+  'voice.mute': 'Arrêter la lecture à voix haute',
+  'voice.repeat': 'Répéter cette étape',
+  'voice.settings': 'Réglages de la voix',
+  'voice.rate': 'Vitesse : {rate}×',
+  'voice.voice': 'Voix',
+  'voice.default': 'Voix par défaut',
+  'voice.floorChangeAhead': 'Changement d’étage à venir : {instruction}',
+
+  // Text view and screen readers
+  'a11y.textView': 'Vue texte',
+  'a11y.mapLabel': 'Plan 3D de l’étage {floor}. Utilisez la vue texte pour une description.',
+  'a11y.mapTitle': 'Plan du bâtiment en texte',
+  'a11y.floors': 'Étages et lieux',
+  'a11y.listHelp': 'Utilisez les flèches pour passer d’un étage ou d’un lieu à l’autre, et Entrée pour obtenir l’itinéraire.',
+  'a11y.placeCount': '{count} lieux',
+  'a11y.here': 'vous êtes ici',
+  'a11y.destination': 'destination',
+  'a11y.step': 'Étape {step} sur {count} : {instruction}',
+  'a11y.routeChoices': '{count} trajets au choix',
+  'a11y.surroundings': 'Autour de vous',
+  'surroundings.inHallway': 'Vous êtes dans un couloir à l’étage {floor}.',
+  'surroundings.at': 'Vous êtes à {place}, à l’étage {floor}.',
+  'surroundings.nearby': 'À proximité : {places}.',
+  'surroundings.none': 'Rien d’autre n’est indiqué à proximité.',
+  'surroundings.room': '{name} ({id})',
+  'surroundings.place': '{place}, à {meters} m {way}',
+  'side.ahead': 'devant vous',
+  'side.left': 'à votre gauche',
+  'side.right': 'à votre droite',
+  'side.behind': 'derrière vous',
+  'side.compass': 'vers {direction}',
+
+  // Destination
+  'destination.room': 'Salle {room}',
+  'destination.here': 'Ici : {names}',
+  'destination.step': 'Étape {step} sur {count}',
+  'destination.share': 'Code QR de ce trajet',
+  'share.route': 'Partager ce trajet',
+  'share.room': 'Partager cette salle',
+  'share.routeLabel': 'Trajet de {from} à {to}',
+  'share.qrLabel': 'Code QR : {label}',
+  'share.posters': 'Affiches pour chaque salle',
+
+  // Room posters
+  'poster.scan': 'Balayez pour vous orienter à partir d’ici',
+  'poster.link': 'Lien pour vous orienter à partir de {place}',
+  'poster.count': '{count} affiches pour {map} (carte {version})',
+
+  // Map controls
+  'controls.rotate': '🖱️ Cliquer-glisser pour pivoter',
+  'controls.zoom': '🔍 Molette pour zoomer',
+  'controls.pan': '⌨️ Clic droit-glisser pour déplacer',
+
+  // Offline and updates
+  'offline.notice': 'Hors ligne : l’itinéraire utilise le plan enregistré',
+  'update.map': 'Plan mis à jour disponible (version {version})',
+  'update.mapApply': 'Mettre à jour',
+  'update.app': 'Une nouvelle version de l’application est prête',
+  'update.appReload': 'Recharger',
+  'update.closuresFailed': 'Les fermetures n’ont pas pu être actualisées ; les trajets peuvent utiliser des fermetures périmées',
+  'update.directoryFailed': 'Le répertoire n’a pas pu être actualisé ; la recherche peut montrer des entrées périmées',
+
+  // AR view
+  'ar.cameraTitle': 'Accès à la caméra requis',
+  'ar.cameraText': 'Autorisez l’accès à la caméra pour utiliser la navigation en RA',
+  'ar.retry': 'Réessayer',
+  'ar.cancel': 'Annuler',
+  'ar.navigatingTo': 'Destination',
+  'ar.step': 'Étape',
+  'ar.previous': 'Précédent',
+  'ar.next': 'Suivant',
+  'ar.exit': 'Quitter la RA',
+
+  // Printed directions
+  'sheet.title': 'Itinéraire vers {to}',
+  'sheet.from': 'Départ : {from} • {map}',
+  'sheet.totals': '{distance} • {time}',
+  'sheet.printed': 'Imprimé le {date}',
+  'sheet.snapshot': 'Trajet à {floor}',
+  'sheet.north': 'N',
+  'sheet.up': 'Prenez {connector} pour monter à {floor}',
+  'sheet.down': 'Prenez {connector} pour descendre à {floor}',
+  'sheet.downloadPdf': 'Télécharger le PDF',
+  'sheet.print': 'Imprimer',
+  'sheet.close': 'Fermer l’aperçu'
+}
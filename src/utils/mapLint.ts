@@ -0,0 +1,194 @@
+// Integrity checks for navigation maps, run by scripts/lint-map.mjs. Files
+// that would not load are reported with the problems map validation finds.
+
+import { Building, PathNode } from './building'
+import { MapFile, MapLoadError, ReferenceIssue, findReferenceIssues, parseMap, readMapFile } from './mapLoader'
+
+export type LintRule =
+  | 'invalid-schema'
+  | ReferenceIssue['rule']
+  | 'overlapping-position'
+  | 'disconnected-component'
+  | 'floor-mismatch'
+  | 'empty-floor'
+  | 'flat-vertical-connector'
+  | 'short-edge-length'
+
+export interface LintIssue {
+  rule: LintRule
+  severity: 'error' | 'warning'
+  message: string
+  nodeIds: string[]
+}
+
+// Nodes closer than this (in scene units) are reported as overlapping
+const MIN_NODE_SPACING = 0.1
+
+function distance(a: PathNode, b: PathNode): number {
+  const [x1, y1, z1] = a.position
+  const [x2, y2, z2] = b.position
+  return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2 + (z2 - z1) ** 2)
+}
+
+// Route search estimates remaining cost by straight-line distance, so an edge
+// declared shorter than that can make it miss the best route
+function checkEdgeLengths(map: Building): LintIssue[] {
+  const issues: LintIssue[] = []
+
+  for (const edge of Object.values(map.edges)) {
+    const from = map.nodes[edge.from]
+    const to = map.nodes[edge.to]
+    // Two-way edges are stored once per direction; report them once
+    const firstDirection = edge.oneWay || edge.from < edge.to
+
+    if (edge.length !== undefined && from && to && firstDirection && edge.length < distance(from, to)) {
+      issues.push({
+        rule: 'short-edge-length',
+        severity: 'warning',
+        message: `Edge ${edge.from}–${edge.to} is ${edge.length} m long but its ends are ${distance(from, to).toFixed(1)} m apart`,
+        nodeIds: [edge.from, edge.to]
+      })
+    }
+  }
+
+  return issues
+}
+
+function checkPositions(map: Building): LintIssue[] {
+  const issues: LintIssue[] = []
+  const nodes = Object.values(map.nodes)
+
+  nodes.forEach((node, index) => {
+    for (const other of nodes.slice(index + 1)) {
+      if (distance(node, other) < MIN_NODE_SPACING) {
+        issues.push({
+          rule: 'overlapping-position',
+          severity: 'warning',
+          message: `${node.id} and ${other.id} are at the same position`,
+          nodeIds: [node.id, other.id]
+        })
+      }
+    }
+
+    if (node.position[1] !== node.floor) {
+      issues.push({
+        rule: 'floor-mismatch',
+        severity: 'warning',
+        message: `${node.id} is on floor ${node.floor} but its Y position is ${node.position[1]}`,
+        nodeIds: [node.id]
+      })
+    }
+  })
+
+  return issues
+}
+
+// Every node should be reachable from the default start, ignoring edge direction
+function checkComponents(map: Building): LintIssue[] {
+  const start = map.nodes[map.metadata.defaultStart]
+  if (!start) return []
+
+  const reached = new Set([start.id])
+  const queue = [start.id]
+
+  while (queue.length > 0) {
+    const node = map.nodes[queue.shift()!]
+    for (const neighborId of node.connections) {
+      if (map.nodes[neighborId] && !reached.has(neighborId)) {
+        reached.add(neighborId)
+        queue.push(neighborId)
+      }
+    }
+  }
+
+  const unreached = Object.keys(map.nodes).filter(id => !reached.has(id))
+  if (unreached.length === 0) return []
+
+  return [{
+    rule: 'disconnected-component',
+    severity: 'error',
+    message: `${unreached.length} node(s) cannot be reached from ${start.id}: ${unreached.join(', ')}`,
+    nodeIds: unreached
+  }]
+}
+
+function checkFloors(map: Building): LintIssue[] {
+  const issues: LintIssue[] = []
+  const nodes = Object.values(map.nodes)
+
+  for (const floor of map.floors) {
+    if (!nodes.some(node => node.floor === floor.level)) {
+      issues.push({
+        rule: 'empty-floor',
+        severity: 'warning',
+        message: `${floor.name} is rendered but has no nodes`,
+        nodeIds: []
+      })
+    }
+  }
+
+  // Stairs, escalators and elevators must link to a connector of the same kind on another floor
+  for (const node of nodes) {
+    if (node.type !== 'stairs' && node.type !== 'escalator' && node.type !== 'elevator') continue
+
+    // Edges in either direction count, so the top of an up escalator passes
+    const changesFloor = Object.values(map.edges).some(({ from, to }) => {
+      if (from !== node.id && to !== node.id) return false
+      const neighbor = map.nodes[from === node.id ? to : from]
+      return neighbor?.type === node.type && neighbor.floor !== node.floor
+    })
+
+    if (!changesFloor) {
+      issues.push({
+        rule: 'flat-vertical-connector',
+        severity: 'error',
+        message: `${node.type} ${node.id} does not connect to another floor`,
+        nodeIds: [node.id]
+      })
+    }
+  }
+
+  return issues
+}
+
+// Check a map file as read from disk. A file that fails validation gets one
+// error per problem, as loading it would list them; one that loads is checked
+// by lintMap.
+export function lintMapFile(data: unknown): LintIssue[] {
+  let file: MapFile
+  try {
+    file = readMapFile(data)
+  } catch (error) {
+    if (!(error instanceof MapLoadError)) throw error
+    return (error.issues.length > 0 ? error.issues : [error.message]).map(message => ({
+      rule: 'invalid-schema' as const,
+      severity: 'error' as const,
+      message,
+      nodeIds: []
+    }))
+  }
+
+  const references = findReferenceIssues(file)
+  if (references.length > 0) {
+    return references.map(({ rule, path, message, nodeIds }) => ({
+      rule,
+      severity: 'error' as const,
+      message: `${path}: ${message}`,
+      nodeIds
+    }))
+  }
+
+  return lintMap(parseMap(data))
+}
+
+// Run every check and return the issues found, errors first
+export function lintMap(map: Building): LintIssue[] {
+  const issues = [
+    ...checkEdgeLengths(map),
+    ...checkPositions(map),
+    ...checkComponents(map),
+    ...checkFloors(map)
+  ]
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
@@ -0,0 +1,354 @@
+// Loading and validation of building map files (see docs/map-schema.md)
+
+import { z } from 'zod'
+import { Building, Edge, PathNode, getEdge } from './building'
+import { Closure } from './closures'
+import { DirectoryEntry } from './directory'
+
+// Map file schema versions this build understands
+export const SUPPORTED_SCHEMA_VERSION = 4
+
+export const DEFAULT_MAP_URL = `${import.meta.env.BASE_URL}maps/slc-campus.json`
+export const DEFAULT_CLOSURES_URL = `${import.meta.env.BASE_URL}maps/slc-campus-closures.json`
+export const DEFAULT_DIRECTORY_URL = `${import.meta.env.BASE_URL}maps/slc-campus-directory.json`
+
+const positionSchema = z.tuple([z.number(), z.number(), z.number()])
+
+// Local time of day, "00:00" to "24:00"
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Expected a time as "HH:MM"')
+
+const accessRulesSchema = {
+  access: z.enum(['public', 'card', 'staff-only']).optional(),
+  hours: z.array(z.object({
+    days: z.array(z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'])).min(1),
+    opens: timeSchema,
+    closes: timeSchema
+  }).refine(period => period.opens < period.closes, 'Closing time must be after opening time')).optional()
+}
+
+const mapFileSchema = z.object({
+  schemaVersion: z.number().int(),
+  metadata: z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    version: z.string(),
+    updated: z.string(),
+    defaultStart: z.string().min(1)
+  }),
+  floors: z.array(z.object({
+    level: z.number().int(),
+    name: z.string()
+  })).min(1),
+  nodes: z.array(z.object({
+    id: z.string().min(1),
+    position: positionSchema,
+    floor: z.number().int(),
+    type: z.enum(['room', 'hallway', 'stairs', 'escalator', 'elevator', 'entrance']),
+    ...accessRulesSchema,
+    landmarks: z.array(z.object({
+      name: z.string().min(1),
+      relation: z.enum(['past', 'opposite', 'beside'])
+    })).optional(),
+    room: z.object({
+      name: z.string().min(1),
+      category: z.enum(['classroom', 'lab', 'library', 'dining', 'office', 'service']),
+      aliases: z.array(z.string()).default([]),
+      metadata: z.record(z.string(), z.string()).default({})
+    }).optional(),
+    amenities: z.array(z.enum(['washroom', 'water-fountain', 'printer', 'microwave', 'accessible-exit'])).optional()
+  })),
+  edges: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    oneWay: z.boolean().optional(),
+    length: z.number().positive().optional(),
+    penalty: z.number().nonnegative().optional(),
+    doorWidth: z.number().positive().optional(),
+    stairCount: z.number().int().nonnegative().optional(),
+    ...accessRulesSchema
+  }))
+})
+
+export type MapFile = z.infer<typeof mapFileSchema>
+
+const dateSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+
+const closureFields = {
+  id: z.string().min(1),
+  label: z.string().min(1).optional(),
+  reason: z.string().min(1),
+  starts: dateSchema.optional(),
+  ends: dateSchema.optional()
+}
+
+const closuresFileSchema = z.object({
+  mapId: z.string().min(1),
+  closures: z.array(z.union([
+    z.object({ ...closureFields, node: z.string() }),
+    z.object({ ...closureFields, edge: z.tuple([z.string(), z.string()]) })
+  ]))
+})
+
+export type ClosuresFile = z.infer<typeof closuresFileSchema>
+
+const directoryFileSchema = z.object({
+  mapId: z.string().min(1),
+  entries: z.array(z.object({
+    id: z.string().min(1),
+    kind: z.enum(['person', 'department', 'service']),
+    name: z.string().min(1),
+    title: z.string().min(1).optional(),
+    roomId: z.string().min(1),
+    aliases: z.array(z.string()).default([]),
+    contact: z.record(z.string(), z.string()).default({})
+  }))
+})
+
+export type DirectoryFile = z.infer<typeof directoryFileSchema>
+
+// Raised when a map file cannot be fetched or fails validation
+export class MapLoadError extends Error {
+  issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'MapLoadError'
+    this.issues = issues
+  }
+}
+
+// A reference problem in a map file, named by the rule scripts/lint-map.mjs
+// reports it under
+export interface ReferenceIssue {
+  rule: 'duplicate-id' | 'duplicate-edge' | 'dangling-id' | 'room-missing-details'
+  // Where in the file, e.g. "edges.3"
+  path: string
+  message: string
+  nodeIds: string[]
+}
+
+// Check references between sections that the shape schema cannot express
+export function findReferenceIssues(file: MapFile): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = []
+  const nodeIds = new Set<string>()
+
+  file.nodes.forEach((node, index) => {
+    const path = `nodes.${index}`
+    if (nodeIds.has(node.id)) {
+      issues.push({ rule: 'duplicate-id', path, message: `duplicate node id "${node.id}"`, nodeIds: [node.id] })
+    }
+    if ((node.type === 'room') !== (node.room !== undefined)) {
+      issues.push({
+        rule: 'room-missing-details',
+        path,
+        message: '"room" details are required on room nodes and only allowed there',
+        nodeIds: [node.id]
+      })
+    }
+    nodeIds.add(node.id)
+  })
+
+  const edgeKeys = new Set<string>()
+  file.edges.forEach((edge, index) => {
+    const path = `edges.${index}`
+    for (const end of [edge.from, edge.to]) {
+      if (!nodeIds.has(end)) {
+        issues.push({
+          rule: 'dangling-id',
+          path,
+          message: `unknown node "${end}"`,
+          nodeIds: [edge.from, edge.to].filter(id => id !== end)
+        })
+      }
+    }
+
+    // Each pair of nodes is joined by one edge, whichever way it is written
+    const key = [edge.from, edge.to].sort().join('|')
+    if (edgeKeys.has(key)) {
+      issues.push({
+        rule: 'duplicate-edge',
+        path,
+        message: `duplicate edge between "${edge.from}" and "${edge.to}"`,
+        nodeIds: [edge.from, edge.to]
+      })
+    }
+    edgeKeys.add(key)
+  })
+
+  if (!nodeIds.has(file.metadata.defaultStart)) {
+    issues.push({
+      rule: 'dangling-id',
+      path: 'metadata.defaultStart',
+      message: `unknown node "${file.metadata.defaultStart}"`,
+      nodeIds: []
+    })
+  }
+
+  return issues
+}
+
+// Check the shape and schema version of parsed JSON
+export function readMapFile(data: unknown): MapFile {
+  const parsed = mapFileSchema.safeParse(data)
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new MapLoadError('Map file does not match the schema', issues)
+  }
+
+  if (parsed.data.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    throw new MapLoadError(
+      `Unsupported map schema version ${parsed.data.schemaVersion} (expected ${SUPPORTED_SCHEMA_VERSION})`
+    )
+  }
+
+  return parsed.data
+}
+
+// Validate parsed JSON and build the in-memory map; edges are walkable both
+// ways unless marked one-way
+export function parseMap(data: unknown): Building {
+  const file = readMapFile(data)
+
+  const referenceIssues = findReferenceIssues(file)
+  if (referenceIssues.length > 0) {
+    throw new MapLoadError(
+      'Map file has broken references',
+      referenceIssues.map(({ path, message }) => `${path}: ${message}`)
+    )
+  }
+
+  const nodes: Record<string, PathNode> = {}
+  for (const node of file.nodes) {
+    nodes[node.id] = { ...node, connections: [] }
+  }
+
+  const edges: Record<string, Edge> = {}
+  for (const edge of file.edges) {
+    nodes[edge.from].connections.push(edge.to)
+    edges[`${edge.from}>${edge.to}`] = edge
+
+    if (!edge.oneWay) {
+      nodes[edge.to].connections.push(edge.from)
+      edges[`${edge.to}>${edge.from}`] = { ...edge, from: edge.to, to: edge.from }
+    }
+  }
+
+  return {
+    schemaVersion: file.schemaVersion,
+    metadata: file.metadata,
+    floors: file.floors,
+    nodes,
+    edges
+  }
+}
+
+// Validate a closures file against the map it overlays
+export function parseClosures(data: unknown, map: Building): Closure[] {
+  const parsed = closuresFileSchema.safeParse(data)
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new MapLoadError('Closures file does not match the schema', issues)
+  }
+
+  const file = parsed.data
+
+  if (file.mapId !== map.metadata.id) {
+    throw new MapLoadError(`Closures are for map "${file.mapId}", not "${map.metadata.id}"`)
+  }
+
+  const issues: string[] = []
+  file.closures.forEach((closure, index) => {
+    if ('node' in closure) {
+      if (!map.nodes[closure.node]) {
+        issues.push(`closures.${index}: unknown node "${closure.node}"`)
+      }
+    } else if (!getEdge(map, ...closure.edge) && !getEdge(map, closure.edge[1], closure.edge[0])) {
+      issues.push(`closures.${index}: no edge between "${closure.edge[0]}" and "${closure.edge[1]}"`)
+    }
+    if (closure.starts && closure.ends && Date.parse(closure.ends) <= Date.parse(closure.starts)) {
+      issues.push(`closures.${index}: ends before it starts`)
+    }
+  })
+
+  if (issues.length > 0) {
+    throw new MapLoadError('Closures file has broken references', issues)
+  }
+
+  return file.closures.map(closure => ({
+    ...closure,
+    starts: closure.starts ? new Date(closure.starts) : undefined,
+    ends: closure.ends ? new Date(closure.ends) : undefined
+  }))
+}
+
+// Validate a directory file against the map its rooms are on
+export function parseDirectory(data: unknown, map: Building): DirectoryEntry[] {
+  const parsed = directoryFileSchema.safeParse(data)
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new MapLoadError('Directory file does not match the schema', issues)
+  }
+
+  const file = parsed.data
+
+  if (file.mapId !== map.metadata.id) {
+    throw new MapLoadError(`Directory is for map "${file.mapId}", not "${map.metadata.id}"`)
+  }
+
+  const issues: string[] = []
+  const ids = new Set<string>()
+  file.entries.forEach((entry, index) => {
+    if (ids.has(entry.id)) {
+      issues.push(`entries.${index}: duplicate entry id "${entry.id}"`)
+    }
+    if (map.nodes[entry.roomId]?.type !== 'room') {
+      issues.push(`entries.${index}: "${entry.roomId}" is not a room`)
+    }
+    ids.add(entry.id)
+  })
+
+  if (issues.length > 0) {
+    throw new MapLoadError('Directory file has broken references', issues)
+  }
+
+  return file.entries
+}
+
+// Fetch a JSON file, naming it `kind` (e.g. "Map file") in errors
+async function fetchJson(url: string, kind: string): Promise<unknown> {
+  let response: Response
+
+  try {
+    response = await fetch(url)
+  } catch (error) {
+    throw new MapLoadError(`Could not reach ${kind.toLowerCase()} at ${url}`, [String(error)])
+  }
+
+  if (!response.ok) {
+    throw new MapLoadError(`${kind} request failed with status ${response.status}`, [url])
+  }
+
+  try {
+    return await response.json()
+  } catch {
+    throw new MapLoadError(`${kind} is not valid JSON`, [url])
+  }
+}
+
+// Fetch and validate a map file
+export async function loadMap(url: string = DEFAULT_MAP_URL): Promise<Building> {
+  return parseMap(await fetchJson(url, 'Map file'))
+}
+
+// Fetch and validate the people, departments and services of a loaded map
+export async function loadDirectory(map: Building, url: string = DEFAULT_DIRECTORY_URL): Promise<DirectoryEntry[]> {
+  return parseDirectory(await fetchJson(url, 'Directory file'), map)
+}
+
+// Fetch and validate the closures overlaying a loaded map
+export async function loadClosures(map: Building, url: string = DEFAULT_CLOSURES_URL): Promise<Closure[]> {
+  return parseClosures(await fetchJson(url, 'Closures file'), map)
+}
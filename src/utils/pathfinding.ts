@@ -1,133 +1,127 @@
 // Pathfinding utilities for 3D navigation
 
-export interface PathNode {
-  id: string
-  position: [number, number, number]
-  floor: number
-  type: 'room' | 'hallway' | 'stairs' | 'elevator' | 'entrance'
-  connections: string[]
-}
+import { BinaryHeap } from './binaryHeap'
+import { Building, Landmark, PathNode, getDisplayName, getEdge } from './building'
+import { UserRole, isPassable } from './access'
 
+// Turn relative to the walker's heading at the start of a step; 'start' when
+// there is no heading yet, at the start of a route or off a stair or elevator ride
+export type TurnType =
+  | 'start'
+  | 'continue'
+  | 'slight-left'
+  | 'left'
+  | 'sharp-left'
+  | 'slight-right'
+  | 'right'
+  | 'sharp-right'
+  | 'u-turn'
+
+export type CompassDirection = 'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest'
+
+// A step as data; instructions.ts words it in the reader's language
 export interface PathStep {
   from: string
   to: string
-  direction: string
+  // Nodes passed between from and to when straight hallway segments are merged
+  via: string[]
+  direction: CompassDirection
+  turn: TurnType
   distance: number
-  instruction: string
   floor: number
   floorChange?: 'up' | 'down'
+  landmark?: Landmark
+  // Turn waiting at the end of a hallway walk, mentioned as "…, then turn left"
+  followedBy?: { turn: TurnType, direction: CompassDirection }
+  // This step's turn was already mentioned as the followedBy of the step before
+  turnAnnounced?: boolean
+  // 1-based stop number when this step arrives at a stop of a multi-stop trip
+  waypoint?: number
 }
 
-// Navigation graph for St. Lawrence College
-export const navigationNodes: Record<string, PathNode> = {
-  'ENTRANCE': {
-    id: 'ENTRANCE',
-    position: [0, 1, -4],
-    floor: 1,
-    type: 'entrance',
-    connections: ['HALL1_1', 'HALL1_2']
-  },
-  'HALL1_1': {
-    id: 'HALL1_1',
-    position: [0, 1, -2],
-    floor: 1,
-    type: 'hallway',
-    connections: ['ENTRANCE', 'HALL1_2', 'B101', 'STAIRS1']
-  },
-  'HALL1_2': {
-    id: 'HALL1_2',
-    position: [2, 1, 0],
-    floor: 1,
-    type: 'hallway',
-    connections: ['HALL1_1', '11840', 'CAFE', 'ELEVATOR1']
-  },
-  'STAIRS1': {
-    id: 'STAIRS1',
-    position: [-1, 1, -1],
-    floor: 1,
-    type: 'stairs',
-    connections: ['HALL1_1', 'STAIRS2']
-  },
-  'ELEVATOR1': {
-    id: 'ELEVATOR1',
-    position: [3, 1, -1],
-    floor: 1,
-    type: 'elevator',
-    connections: ['HALL1_2', 'ELEVATOR2']
-  },
-  'B101': {
-    id: 'B101',
-    position: [0, 1, -2],
-    floor: 1,
-    type: 'room',
-    connections: ['HALL1_1']
-  },
-  '11840': {
-    id: '11840',
-    position: [-2, 1, 2],
-    floor: 1,
-    type: 'room',
-    connections: ['HALL1_2']
-  },
-  'CAFE': {
-    id: 'CAFE',
-    position: [3, 1, 0],
-    floor: 1,
-    type: 'room',
-    connections: ['HALL1_2']
-  },
-  // Floor 2
-  'STAIRS2': {
-    id: 'STAIRS2',
-    position: [-1, 2, -1],
-    floor: 2,
-    type: 'stairs',
-    connections: ['STAIRS1', 'HALL2_1']
-  },
-  'ELEVATOR2': {
-    id: 'ELEVATOR2',
-    position: [3, 2, -1],
-    floor: 2,
-    type: 'elevator',
-    connections: ['ELEVATOR1', 'HALL2_2']
-  },
-  'HALL2_1': {
-    id: 'HALL2_1',
-    position: [0, 2, 0],
-    floor: 2,
-    type: 'hallway',
-    connections: ['STAIRS2', 'HALL2_2', 'A233', 'C205']
-  },
-  'HALL2_2': {
-    id: 'HALL2_2',
-    position: [2, 2, 1],
-    floor: 2,
-    type: 'hallway',
-    connections: ['HALL2_1', 'ELEVATOR2', 'LIB']
-  },
-  'A233': {
-    id: 'A233',
-    position: [2, 2, 0],
-    floor: 2,
-    type: 'room',
-    connections: ['HALL2_1']
-  },
-  'C205': {
-    id: 'C205',
-    position: [-1, 2, 1],
-    floor: 2,
-    type: 'room',
-    connections: ['HALL2_1']
-  },
-  'LIB': {
-    id: 'LIB',
-    position: [0, 2, 3],
-    floor: 2,
-    type: 'room',
-    connections: ['HALL2_2']
-  }
+// Where a place lies relative to the way the walker is facing
+export type RelativeSide = 'ahead' | 'left' | 'right' | 'behind'
+
+// A place near the walker, described in the text view of the map
+export interface Surrounding {
+  id: string
+  distance: number
+  direction: CompassDirection
+  // Unknown until the walker has a heading, e.g. before a route is chosen
+  side?: RelativeSide
+}
+
+// Routing profiles control which vertical connectors a route may use
+export type RoutingProfile = 'shortest' | 'step-free' | 'avoid-elevators' | 'prefer-stairs'
+
+export interface RouteOptions {
+  profile?: RoutingProfile
+  // Doors this role cannot open are avoided; access is not checked when unset
+  role?: UserRole
+  // Nodes and edges locked at this time are avoided; hours are not checked when unset
+  departure?: Date
+}
+
+export interface AlternativeRouteOptions extends RouteOptions {
+  // Most routes to return, the best one included
+  count?: number
+  // Largest share of a route's length that may repeat an already chosen route
+  maxOverlap?: number
+}
+
+export interface NearestOptions extends RouteOptions {
+  // Most matches to return
+  count?: number
+}
+
+// One of several routes offered from the same start
+export interface RouteCandidate {
+  nodes: string[]
+  cost: number
+}
+
+// Outcome of a route search; only 'ok' carries a path
+export type RouteResult =
+  | { status: 'ok', nodes: string[], cost: number, visited: number }
+  | { status: 'unreachable', nearest: string, visited: number }
+  | { status: 'unknown-node', unknownIds: string[] }
+
+export const routingProfiles: RoutingProfile[] = ['shortest', 'step-free', 'avoid-elevators', 'prefer-stairs']
+
+// Cost multiplier for elevators when the profile prefers stairs but still allows elevators
+const ELEVATOR_PENALTY = 3
+
+// Narrowest door, in metres, a wheelchair user can pass on a step-free route
+const MIN_STEP_FREE_DOOR_WIDTH = 0.8
+
+// Alternative routes offered by default, and how much of an accepted route they may share
+const DEFAULT_ALTERNATIVES = 3
+const MAX_ROUTE_OVERLAP = 0.7
+
+// Alternatives costing more than this multiple of the best route are not worth offering
+const MAX_DETOUR = 2
+
+// Matches returned by a nearest search by default
+const DEFAULT_NEAREST = 3
+
+// Loopless paths examined per requested route before giving up on finding distinct ones
+const CANDIDATES_PER_ROUTE = 4
+
+// Walking speed used for time estimates, about 80 m a minute
+const MINUTES_PER_METRE = 1 / 80
+
+// How far around the walker, and how many places, the text view describes
+const SURROUNDINGS_RADIUS = 4
+const MAX_SURROUNDINGS = 4
+
+// Nodes and directed edges (keyed "from>to") a search must not use
+interface SearchExclusions {
+  nodes: Set<string>
+  edges: Set<string>
 }
 
+const NO_EXCLUSIONS: SearchExclusions = { nodes: new Set(), edges: new Set() }
+
 // Calculate distance between two 3D points
 function calculateDistance(pos1: [number, number, number], pos2: [number, number, number]): number {
   const [x1, y1, z1] = pos1
@@ -135,15 +129,16 @@ function calculateDistance(pos1: [number, number, number], pos2: [number, number
   return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2 + (z2 - z1) ** 2)
 }
 
-// Get direction between two points
-function getDirection(from: [number, number, number], to: [number, number, number]): string {
+// Get direction between two points. The scene is right-handed and y-up, so
+// seen from above with +x as east, north is -z.
+function getDirection(from: [number, number, number], to: [number, number, number]): CompassDirection {
   const [x1, , z1] = from
   const [x2, , z2] = to
   
   const dx = x2 - x1
   const dz = z2 - z1
   
-  const angle = Math.atan2(dz, dx) * 180 / Math.PI
+  const angle = Math.atan2(-dz, dx) * 180 / Math.PI
   
   if (angle >= -22.5 && angle < 22.5) return 'east'
   if (angle >= 22.5 && angle < 67.5) return 'northeast'
@@ -152,118 +147,457 @@ function getDirection(from: [number, number, number], to: [number, number, numbe
   if (angle >= 157.5 || angle < -157.5) return 'west'
   if (angle >= -157.5 && angle < -112.5) return 'southwest'
   if (angle >= -112.5 && angle < -67.5) return 'south'
-  if (angle >= -67.5 && angle < -22.5) return 'southeast'
+  return 'southeast'
+}
+
+// Heading of horizontal movement in degrees (0 = east, 90 = south), or null for
+// purely vertical moves such as riding an elevator. Headings grow clockwise
+// when the scene is seen from above.
+function getHeading(from: [number, number, number], to: [number, number, number]): number | null {
+  const dx = to[0] - from[0]
+  const dz = to[2] - from[2]
+  
+  if (Math.abs(dx) < 1e-6 && Math.abs(dz) < 1e-6) return null
+  
+  return Math.atan2(dz, dx) * 180 / Math.PI
+}
+
+// Classify the change between two headings; clockwise changes, seen from
+// above, are right turns
+export function classifyTurn(previous: number | null, next: number | null): TurnType {
+  if (next === null) return 'continue'
+  if (previous === null) return 'start'
   
-  return 'forward'
+  let delta = next - previous
+  while (delta > 180) delta -= 360
+  while (delta <= -180) delta += 360
+  
+  const magnitude = Math.abs(delta)
+  const side = delta < 0 ? 'left' : 'right'
+  
+  if (magnitude < 20) return 'continue'
+  if (magnitude < 60) return `slight-${side}`
+  if (magnitude < 120) return side
+  if (magnitude < 160) return `sharp-${side}`
+  return 'u-turn'
 }
 
-// Dijkstra's algorithm for pathfinding
-export function findPath(startId: string, endId: string): PathStep[] {
-  const distances: Record<string, number> = {}
-  const previous: Record<string, string | null> = {}
-  const unvisited = new Set(Object.keys(navigationNodes))
+// Walking length of an edge: its override if the map gives one, otherwise the
+// straight-line distance between its ends
+function getEdgeLength(map: Building, from: PathNode, to: PathNode): number {
+  return getEdge(map, from.id, to.id)?.length ?? calculateDistance(from.position, to.position)
+}
+
+// Cost of walking an edge under a routing profile, or Infinity if the profile forbids it
+function getEdgeCost(map: Building, from: PathNode, to: PathNode, profile: RoutingProfile): number {
+  const edge = getEdge(map, from.id, to.id)
+  const cost = getEdgeLength(map, from, to) + (edge?.penalty ?? 0)
+  const usesStairs = [from.type, to.type].some(type => type === 'stairs' || type === 'escalator') ||
+    (edge?.stairCount ?? 0) > 0
+  const usesElevator = from.type === 'elevator' || to.type === 'elevator'
+  const narrowDoor = edge?.doorWidth !== undefined && edge.doorWidth < MIN_STEP_FREE_DOOR_WIDTH
   
-  // Initialize distances
-  for (const nodeId of Object.keys(navigationNodes)) {
-    distances[nodeId] = nodeId === startId ? 0 : Infinity
-    previous[nodeId] = null
+  switch (profile) {
+    case 'step-free':
+      return usesStairs || narrowDoor ? Infinity : cost
+    case 'avoid-elevators':
+      return usesElevator ? Infinity : cost
+    case 'prefer-stairs':
+      return usesElevator ? cost * ELEVATOR_PENALTY : cost
+    default:
+      return cost
+  }
+}
+
+// Admissible A* estimate: straight-line distance in 3D. Node Y positions encode
+// the floor, so the vertical gap between floors is part of the estimate, and no
+// profile makes an edge cheaper than its length. Length overrides shorter than
+// the straight-line distance break this and are reported by the map linter.
+function estimateCost(from: PathNode, to: PathNode): number {
+  return calculateDistance(from.position, to.position)
+}
+
+// A* search over the navigation graph using a binary-heap open set
+export function searchRoute(map: Building, startId: string, endId: string, options: RouteOptions = {}): RouteResult {
+  const unknownIds = [startId, endId].filter(id => !map.nodes[id])
+  if (unknownIds.length > 0) {
+    return { status: 'unknown-node', unknownIds }
   }
   
-  while (unvisited.size > 0) {
-    // Find unvisited node with minimum distance
-    let currentNode = null
-    let minDistance = Infinity
+  return runSearch(map, startId, endId, options, NO_EXCLUSIONS)
+}
+
+// Whether the walker's role and departure time let them take an edge and enter
+// the node it leads to. Route searches skip the node check for the destination,
+// so a route still leads to the door of a room that is closed or restricted.
+function canTraverse(map: Building, fromId: string, toId: string, options: RouteOptions, checkNode = true): boolean {
+  const { role, departure } = options
+  if (!role && !departure) return true
+  
+  const edge = getEdge(map, fromId, toId)
+  if (edge && !isPassable(edge, role, departure)) return false
+  return !checkNode || isPassable(map.nodes[toId], role, departure)
+}
+
+function runSearch(
+  map: Building,
+  startId: string,
+  endId: string,
+  options: RouteOptions,
+  exclusions: SearchExclusions
+): RouteResult {
+  const { nodes } = map
+  const profile = options.profile ?? 'shortest'
+  const goal = nodes[endId]
+  const costs: Record<string, number> = { [startId]: 0 }
+  const previous: Record<string, string> = {}
+  const closed = new Set<string>()
+  const open = new BinaryHeap<string>()
+  
+  open.push(startId, estimateCost(nodes[startId], goal))
+  
+  while (open.size > 0) {
+    const currentId = open.pop()!
     
-    for (const nodeId of unvisited) {
-      if (distances[nodeId] < minDistance) {
-        minDistance = distances[nodeId]
-        currentNode = nodeId
+    // Stale heap entries are skipped instead of being decreased in place
+    if (closed.has(currentId)) continue
+    closed.add(currentId)
+    
+    if (currentId === endId) {
+      return {
+        status: 'ok',
+        nodes: reconstructPath(previous, endId),
+        cost: costs[endId],
+        visited: closed.size
       }
     }
     
-    if (!currentNode || distances[currentNode] === Infinity) break
-    
-    unvisited.delete(currentNode)
-    
-    // Check if we reached the destination
-    if (currentNode === endId) break
-    
-    // Update distances to neighbors
-    const node = navigationNodes[currentNode]
+    const node = nodes[currentId]
     for (const neighborId of node.connections) {
-      if (!unvisited.has(neighborId)) continue
+      if (closed.has(neighborId)) continue
+      if (exclusions.nodes.has(neighborId) || exclusions.edges.has(`${currentId}>${neighborId}`)) continue
+      if (!canTraverse(map, currentId, neighborId, options, neighborId !== endId)) continue
+      
+      const neighbor = nodes[neighborId]
+      const cost = getEdgeCost(map, node, neighbor, profile)
+      if (cost === Infinity) continue
       
-      const neighbor = navigationNodes[neighborId]
-      const distance = calculateDistance(node.position, neighbor.position)
-      const newDistance = distances[currentNode] + distance
+      const newCost = costs[currentId] + cost
       
-      if (newDistance < distances[neighborId]) {
-        distances[neighborId] = newDistance
-        previous[neighborId] = currentNode
+      if (newCost < (costs[neighborId] ?? Infinity)) {
+        costs[neighborId] = newCost
+        previous[neighborId] = currentId
+        open.push(neighborId, newCost + estimateCost(neighbor, goal))
       }
     }
   }
   
-  // Reconstruct path
-  const path: string[] = []
+  return { status: 'unreachable', nearest: findNearestNode(map, closed, goal), visited: closed.size }
+}
+
+// Closest node to the goal, in straight-line distance, among those the search reached
+function findNearestNode(map: Building, reached: Set<string>, goal: PathNode): string {
+  let nearest = ''
+  let minDistance = Infinity
+  
+  for (const nodeId of reached) {
+    const distance = calculateDistance(map.nodes[nodeId].position, goal.position)
+    if (distance < minDistance) {
+      minDistance = distance
+      nearest = nodeId
+    }
+  }
+  
+  return nearest
+}
+
+// Walk the predecessor map back from the goal
+function reconstructPath(previous: Record<string, string>, endId: string): string[] {
+  const path = [endId]
   let current = endId
   
-  while (current !== null) {
-    path.unshift(current)
+  while (previous[current] !== undefined) {
     current = previous[current]
+    path.unshift(current)
   }
   
-  // Convert path to steps with instructions
-  const steps: PathStep[] = []
-  
+  return path
+}
+
+// Cost of following a node path under a profile
+function getPathCost(map: Building, path: string[], profile: RoutingProfile): number {
+  let cost = 0
   for (let i = 0; i < path.length - 1; i++) {
-    const fromNode = navigationNodes[path[i]]
-    const toNode = navigationNodes[path[i + 1]]
+    cost += getEdgeCost(map, map.nodes[path[i]], map.nodes[path[i + 1]], profile)
+  }
+  return cost
+}
+
+// Edges of a path keyed independently of walking direction, with their lengths
+function getEdgeLengths(map: Building, path: string[]): Map<string, number> {
+  const edges = new Map<string, number>()
+  for (let i = 0; i < path.length - 1; i++) {
+    const key = [path[i], path[i + 1]].sort().join('|')
+    edges.set(key, getEdgeLength(map, map.nodes[path[i]], map.nodes[path[i + 1]]))
+  }
+  return edges
+}
+
+// Share of a route's length that it has in common with another route
+function getOverlap(map: Building, route: string[], other: string[]): number {
+  const edges = getEdgeLengths(map, route)
+  const otherEdges = getEdgeLengths(map, other)
+  let total = 0
+  let shared = 0
+  
+  for (const [key, length] of edges) {
+    total += length
+    if (otherEdges.has(key)) shared += length
+  }
+  
+  return total > 0 ? shared / total : 1
+}
+
+// Up to `count` routes between two nodes, cheapest first. Candidates come from
+// Yen's k-shortest loopless paths; one that mostly repeats a route already
+// chosen, or is a long detour, is skipped so the alternatives are worth comparing.
+export function findAlternativeRoutes(
+  map: Building,
+  startId: string,
+  endId: string,
+  options: AlternativeRouteOptions = {}
+): RouteCandidate[] {
+  const first = searchRoute(map, startId, endId, options)
+  if (first.status !== 'ok' || first.nodes.length < 2) return []
+  
+  const profile = options.profile ?? 'shortest'
+  const count = options.count ?? DEFAULT_ALTERNATIVES
+  const maxOverlap = options.maxOverlap ?? MAX_ROUTE_OVERLAP
+  
+  // Every path found so far in cost order, and the diverse subset returned
+  const shortest: RouteCandidate[] = [{ nodes: first.nodes, cost: first.cost }]
+  const chosen = [...shortest]
+  const pending: RouteCandidate[] = []
+  const seen = new Set([first.nodes.join('>')])
+  
+  while (chosen.length < count && shortest.length < count * CANDIDATES_PER_ROUTE) {
+    const previous = shortest[shortest.length - 1].nodes
     
-    const direction = getDirection(fromNode.position, toNode.position)
-    const distance = calculateDistance(fromNode.position, toNode.position)
+    // Branch off the previous path at each node, without reusing its prefix
+    // or any edge an earlier path took from the same prefix
+    for (let i = 0; i < previous.length - 1; i++) {
+      const root = previous.slice(0, i + 1)
+      const exclusions: SearchExclusions = { nodes: new Set(root.slice(0, -1)), edges: new Set() }
+      
+      for (const { nodes } of shortest) {
+        if (nodes.length > i + 1 && root.every((id, j) => nodes[j] === id)) {
+          exclusions.edges.add(`${nodes[i]}>${nodes[i + 1]}`)
+        }
+      }
+      
+      const spur = runSearch(map, previous[i], endId, options, exclusions)
+      if (spur.status !== 'ok') continue
+      
+      const nodes = [...root.slice(0, -1), ...spur.nodes]
+      const key = nodes.join('>')
+      if (seen.has(key)) continue
+      
+      seen.add(key)
+      pending.push({ nodes, cost: getPathCost(map, root, profile) + spur.cost })
+    }
     
-    let instruction = ''
-    let floorChange: 'up' | 'down' | undefined
+    if (pending.length === 0) break
     
-    if (toNode.type === 'stairs') {
-      if (toNode.floor > fromNode.floor) {
-        instruction = `Take the stairs up to floor ${toNode.floor}`
-        floorChange = 'up'
-      } else {
-        instruction = `Take the stairs down to floor ${toNode.floor}`
-        floorChange = 'down'
-      }
-    } else if (toNode.type === 'elevator') {
-      if (toNode.floor > fromNode.floor) {
-        instruction = `Take the elevator up to floor ${toNode.floor}`
-        floorChange = 'up'
-      } else if (toNode.floor < fromNode.floor) {
-        instruction = `Take the elevator down to floor ${toNode.floor}`
-        floorChange = 'down'
-      } else {
-        instruction = 'Continue to the elevator'
+    pending.sort((a, b) => a.cost - b.cost)
+    const next = pending.shift()!
+    if (next.cost > first.cost * MAX_DETOUR) break
+    
+    shortest.push(next)
+    
+    if (chosen.every(route => getOverlap(map, next.nodes, route.nodes) <= maxOverlap)) {
+      chosen.push(next)
+    }
+  }
+  
+  return chosen
+}
+
+// The `count` cheapest-to-reach nodes matching a test, nearest first, found by
+// one Dijkstra search from the start. Matches that are locked for the walker
+// are passed over, and the start itself never counts.
+export function findNearest(
+  map: Building,
+  startId: string,
+  isTarget: (node: PathNode) => boolean,
+  options: NearestOptions = {}
+): RouteCandidate[] {
+  const { nodes } = map
+  if (!nodes[startId]) return []
+  
+  const profile = options.profile ?? 'shortest'
+  const count = options.count ?? DEFAULT_NEAREST
+  const costs: Record<string, number> = { [startId]: 0 }
+  const previous: Record<string, string> = {}
+  const closed = new Set<string>()
+  const open = new BinaryHeap<string>()
+  const found: RouteCandidate[] = []
+  
+  open.push(startId, 0)
+  
+  while (open.size > 0 && found.length < count) {
+    const currentId = open.pop()!
+    if (closed.has(currentId)) continue
+    closed.add(currentId)
+    
+    const node = nodes[currentId]
+    if (currentId !== startId && isTarget(node)) {
+      found.push({ nodes: reconstructPath(previous, currentId), cost: costs[currentId] })
+    }
+    
+    for (const neighborId of node.connections) {
+      if (closed.has(neighborId)) continue
+      if (!canTraverse(map, currentId, neighborId, options)) continue
+      
+      const cost = getEdgeCost(map, node, nodes[neighborId], profile)
+      if (cost === Infinity) continue
+      
+      const newCost = costs[currentId] + cost
+      if (newCost < (costs[neighborId] ?? Infinity)) {
+        costs[neighborId] = newCost
+        previous[neighborId] = currentId
+        open.push(neighborId, newCost)
       }
-    } else if (toNode.type === 'room') {
-      instruction = `Arrive at ${toNode.id}`
-    } else if (toNode.type === 'hallway') {
-      instruction = `Continue ${direction} down the hallway`
-    } else {
-      instruction = `Head ${direction}`
     }
+  }
+  
+  return found
+}
+
+// Find a route and convert it to turn-by-turn steps; empty when there is no route
+export function findPath(map: Building, startId: string, endId: string, options: RouteOptions = {}): PathStep[] {
+  const result = searchRoute(map, startId, endId, options)
+  return result.status === 'ok' ? buildSteps(map, result.nodes) : []
+}
+
+// One edge of a path, or several straight hallway edges merged together
+interface Leg {
+  from: PathNode
+  to: PathNode
+  via: PathNode[]
+  direction: CompassDirection
+  turn: TurnType
+  distance: number
+  floorChange?: 'up' | 'down'
+}
+
+// Split a node path into legs, tracking the walker's heading to classify turns
+function buildLegs(map: Building, path: string[]): Leg[] {
+  const legs: Leg[] = []
+  // Nobody keeps their heading through a stair or elevator ride, so the first
+  // leg on a new floor starts afresh with a compass direction
+  let heading: number | null = null
+  
+  for (let i = 0; i < path.length - 1; i++) {
+    const fromNode = map.nodes[path[i]]
+    const toNode = map.nodes[path[i + 1]]
+    const nextHeading = getHeading(fromNode.position, toNode.position)
     
-    steps.push({
-      from: fromNode.id,
-      to: toNode.id,
-      direction,
-      distance: Math.round(distance * 10) / 10,
-      instruction,
-      floor: toNode.floor,
+    let floorChange: 'up' | 'down' | undefined
+    if (toNode.floor > fromNode.floor) floorChange = 'up'
+    if (toNode.floor < fromNode.floor) floorChange = 'down'
+    
+    legs.push({
+      from: fromNode,
+      to: toNode,
+      via: [],
+      direction: getDirection(fromNode.position, toNode.position),
+      turn: classifyTurn(heading, nextHeading),
+      distance: getEdgeLength(map, fromNode, toNode),
       floorChange
     })
+    
+    if (floorChange) {
+      heading = null
+    } else if (nextHeading !== null) {
+      heading = nextHeading
+    }
   }
   
-  return steps
+  return legs
+}
+
+// Fold hallway edges that continue straight on into the leg before them
+function mergeStraightLegs(legs: Leg[]): Leg[] {
+  const merged: Leg[] = []
+  
+  for (const leg of legs) {
+    const last = merged[merged.length - 1]
+    const canMerge = last &&
+      last.to.type === 'hallway' &&
+      leg.to.type === 'hallway' &&
+      leg.turn === 'continue' &&
+      !last.floorChange &&
+      !leg.floorChange
+    
+    if (canMerge) {
+      last.via.push(last.to)
+      last.to = leg.to
+      last.distance += leg.distance
+    } else {
+      merged.push({ ...leg, via: [] })
+    }
+  }
+  
+  return merged
+}
+
+// Pick something recognisable along a leg: a mapped landmark first, otherwise a
+// room that opens onto the hallway but is not part of the route
+function findLandmark(map: Building, leg: Leg, onPath: Set<string>): Landmark | undefined {
+  const passed = [...leg.via, leg.to]
+  
+  for (const node of passed) {
+    if (node.landmarks?.length) return node.landmarks[0]
+  }
+  
+  for (const node of passed) {
+    const roomId = node.connections.find(id => !onPath.has(id) && map.nodes[id]?.type === 'room')
+    if (roomId) return { name: getDisplayName(map, roomId), relation: 'past' }
+  }
+  
+  return undefined
+}
+
+// Turn after a hallway walk, worth mentioning with the walk itself
+function getFollowingTurn(leg: Leg, next: Leg | undefined): PathStep['followedBy'] {
+  if (leg.to.type !== 'hallway' || leg.floorChange) return undefined
+  if (!next || next.floorChange || next.turn === 'continue') return undefined
+  return { turn: next.turn, direction: next.direction }
+}
+
+// Convert a node path to steps
+export function buildSteps(map: Building, path: string[]): PathStep[] {
+  const onPath = new Set(path)
+  const legs = mergeStraightLegs(buildLegs(map, path))
+  const following = legs.map((leg, i) => getFollowingTurn(leg, legs[i + 1]))
+  
+  return legs.map((leg, i) => {
+    const landmark = leg.to.type === 'hallway' ? findLandmark(map, leg, onPath) : undefined
+    
+    return {
+      from: leg.from.id,
+      to: leg.to.id,
+      via: leg.via.map(node => node.id),
+      direction: leg.direction,
+      turn: leg.turn,
+      distance: Math.round(leg.distance * 10) / 10,
+      floor: leg.to.floor,
+      floorChange: leg.floorChange,
+      landmark,
+      followedBy: following[i],
+      turnAnnounced: following[i - 1] !== undefined
+    }
+  })
 }
 
 // Get all path nodes for visualization
@@ -272,8 +606,75 @@ export function getPathNodes(steps: PathStep[]): string[] {
   
   for (const step of steps) {
     nodes.add(step.from)
+    step.via.forEach(id => nodes.add(id))
     nodes.add(step.to)
   }
   
   return Array.from(nodes)
-}
\ No newline at end of file
+}
+
+// Total walking distance of a route
+export function getRouteDistance(steps: PathStep[]): number {
+  return steps.reduce((sum, step) => sum + step.distance, 0)
+}
+
+// Rough walking time of a route in whole minutes
+export function estimateMinutes(steps: PathStep[]): number {
+  return Math.ceil(getRouteDistance(steps) * MINUTES_PER_METRE)
+}
+
+// Vertical connectors a route changes floors with, in the order they are named
+export function getConnectors(map: Building, steps: PathStep[]): PathNode['type'][] {
+  const used = new Set(
+    steps
+      .filter(step => step.floorChange)
+      .map(step => map.nodes[step.to].type)
+  )
+  return (['stairs', 'escalator', 'elevator'] as const).filter(type => used.has(type))
+}
+
+// Heading the walker faces at the start of a step in degrees; null until the
+// route has moved sideways, and again after a stair or elevator ride, as in buildLegs
+export function getHeadingAt(map: Building, steps: PathStep[], index: number): number | null {
+  for (let i = index; i >= 0; i--) {
+    const heading = getHeading(map.nodes[steps[i].from].position, map.nodes[steps[i].to].position)
+    if (heading !== null) return heading
+    if (steps[i - 1]?.floorChange) return null
+  }
+  return null
+}
+
+// Clockwise bearings, seen from above, are to the right, as in classifyTurn
+function getRelativeSide(heading: number, bearing: number): RelativeSide {
+  let delta = bearing - heading
+  while (delta > 180) delta -= 360
+  while (delta <= -180) delta += 360
+  
+  const magnitude = Math.abs(delta)
+  if (magnitude <= 45) return 'ahead'
+  if (magnitude >= 135) return 'behind'
+  return delta < 0 ? 'left' : 'right'
+}
+
+// Rooms, connectors, entrances and amenities on the same floor near a node,
+// closest first; plain hallway nodes are left out
+export function findSurroundings(map: Building, nodeId: string, heading: number | null): Surrounding[] {
+  const here = map.nodes[nodeId]
+  
+  return Object.values(map.nodes)
+    .filter(node => node.id !== here.id && node.floor === here.floor)
+    .filter(node => node.type !== 'hallway' || (node.amenities?.length ?? 0) > 0)
+    .map(node => ({ node, distance: calculateDistance(here.position, node.position) }))
+    .filter(({ distance }) => distance <= SURROUNDINGS_RADIUS)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SURROUNDINGS)
+    .map(({ node, distance }) => {
+      const bearing = getHeading(here.position, node.position)
+      return {
+        id: node.id,
+        distance,
+        direction: getDirection(here.position, node.position),
+        side: heading === null || bearing === null ? undefined : getRelativeSide(heading, bearing)
+      }
+    })
+}
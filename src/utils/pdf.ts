@@ -0,0 +1,177 @@
+// Minimal PDF writer for documents made in the browser: pages of text, lines,
+// circles and rectangles in the built-in Helvetica fonts. Coordinates are in
+// points from the top left corner of the page.
+
+export type Point = [number, number]
+
+export interface TextStyle {
+  size?: number
+  bold?: boolean
+  color?: string
+}
+
+export interface ShapeStyle {
+  fill?: string
+  stroke?: string
+  width?: number
+}
+
+// US Letter
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+
+// Average Helvetica glyph widths as a fraction of the font size; close enough
+// to wrap text without embedding font metrics
+const REGULAR_WIDTH = 0.52
+const BOLD_WIDTH = 0.56
+
+// Control point distance for drawing a quarter circle as a Bézier curve
+const CIRCLE_KAPPA = 0.5523
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80–0x9f
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+
+// Text as WinAnsi bytes in a PDF string; characters it cannot show become "?"
+function encodeText(text: string): string {
+  const encoded = Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    if (WIN_ANSI[char]) return String.fromCharCode(WIN_ANSI[char])
+    return code < 0x80 || (code >= 0xa0 && code <= 0xff) ? char : '?'
+  }).join('')
+  return encoded.replace(/[\\()]/g, '\\$&')
+}
+
+// "#3b82f6" → "0.231 0.51 0.965"
+function toRgb(color: string): string {
+  const value = parseInt(color.replace('#', ''), 16)
+  return [16, 8, 0].map(shift => Number((((value >> shift) & 0xff) / 255).toFixed(3))).join(' ')
+}
+
+function format(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+
+  constructor() {
+    this.addPage()
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get content(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  private point([x, y]: Point): string {
+    return `${format(x)} ${format(PAGE_HEIGHT - y)}`
+  }
+
+  static textWidth(text: string, size: number, bold = false): number {
+    return text.length * size * (bold ? BOLD_WIDTH : REGULAR_WIDTH)
+  }
+
+  // Text with its baseline at y
+  text(x: number, y: number, text: string, { size = 10, bold = false, color = '#000000' }: TextStyle = {}) {
+    this.content.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${toRgb(color)} rg ${this.point([x, y])} Td (${encodeText(text)}) Tj ET`
+    )
+  }
+
+  // Lines of text no wider than the width; returns the y below the last line
+  paragraph(x: number, y: number, width: number, text: string, style: TextStyle = {}): number {
+    const size = style.size ?? 10
+    const lineHeight = size * 1.35
+    let line = ''
+
+    for (const word of text.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && PdfDocument.textWidth(candidate, size, style.bold) > width) {
+        this.text(x, y, line, style)
+        y += lineHeight
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    if (line) {
+      this.text(x, y, line, style)
+      y += lineHeight
+    }
+    return y
+  }
+
+  private paint({ fill, stroke, width = 1 }: ShapeStyle): string {
+    const colors = [
+      fill ? `${toRgb(fill)} rg` : '',
+      stroke ? `${toRgb(stroke)} RG ${format(width)} w` : ''
+    ].filter(Boolean).join(' ')
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S'
+    return `${colors} ${operator}`
+  }
+
+  polyline(points: Point[], { stroke = '#000000', width = 1 }: ShapeStyle = {}) {
+    if (points.length < 2) return
+    const path = points.map((point, i) => `${this.point(point)} ${i === 0 ? 'm' : 'l'}`).join(' ')
+    this.content.push(`q 1 J 1 j ${path} ${this.paint({ stroke, width })} Q`)
+  }
+
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle) {
+    this.content.push(`q ${format(x)} ${format(PAGE_HEIGHT - y - height)} ${format(width)} ${format(height)} re ${this.paint(style)} Q`)
+  }
+
+  circle(x: number, y: number, radius: number, style: ShapeStyle) {
+    const k = radius * CIRCLE_KAPPA
+    const curve = (c1: Point, c2: Point, end: Point) => `${this.point(c1)} ${this.point(c2)} ${this.point(end)} c`
+    const path = [
+      `${this.point([x + radius, y])} m`,
+      curve([x + radius, y + k], [x + k, y + radius], [x, y + radius]),
+      curve([x - k, y + radius], [x - radius, y + k], [x - radius, y]),
+      curve([x - radius, y - k], [x - k, y - radius], [x, y - radius]),
+      curve([x + k, y - radius], [x + radius, y - k], [x + radius, y])
+    ].join(' ')
+    this.content.push(`q ${path} ${this.paint(style)} Q`)
+  }
+
+  // The finished file; every character written is a single byte
+  toBlob(): Blob {
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    ]
+    const pageIds: number[] = []
+
+    for (const page of this.pages) {
+      const stream = page.join('\n')
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+      const contentId = objects.length
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+      pageIds.push(objects.length)
+    }
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+    let output = '%PDF-1.4\n'
+    const offsets = objects.map((object, i) => {
+      const offset = output.length
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+    const xref = output.length
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+    return new Blob([Uint8Array.from(output, char => char.charCodeAt(0))], { type: 'application/pdf' })
+  }
+}
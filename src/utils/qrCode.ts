@@ -0,0 +1,348 @@
+// QR code encoder for deep links, so codes are made on the device without a
+// web service. Supports byte mode at error correction level M in versions 1-10,
+// which holds links of up to 213 bytes.
+
+// true for a dark module; rows top to bottom
+export type QrMatrix = boolean[][]
+
+const MAX_VERSION = 10
+
+// Level M error correction per version (index 0 unused), from ISO/IEC 18004 table 9
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+
+// Format information bits for level M
+const ECC_FORMAT_BITS = 0
+
+// Light border, in modules, that scanners need around the code
+export const QR_QUIET_ZONE = 4
+
+// Modules available for data and error correction codewords
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getDataCodewords(version: number): number {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+
+  const count = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array(degree).fill(0)
+  divisor[degree - 1] = 1
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < divisor.length; j++) {
+      divisor[j] = multiply(divisor[j], root)
+      if (j + 1 < divisor.length) divisor[j] ^= divisor[j + 1]
+    }
+    root = multiply(root, 0x02)
+  }
+  return divisor
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => { result[i] ^= multiply(coefficient, factor) })
+  }
+  return result
+}
+
+// Mode indicator, length, the bytes and padding, as codewords
+function getDataBytes(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  const capacity = getDataCodewords(version) * 8
+  append(0b0100, 4)
+  append(bytes.length, version < 10 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// Data split into blocks, each followed by its error correction, then interleaved
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+  const shortBlocks = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = getReedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+    offset += block.length
+    const ecc = getReedSolomonRemainder(block, divisor)
+    // Short blocks get a placeholder so every block lines up when interleaving
+    if (i < shortBlocks) block.push(0)
+    blocks.push([...block, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+function getMask(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0
+  }
+}
+
+class QrBuilder {
+  readonly size: number
+  readonly modules: QrMatrix
+  // Finder, timing, alignment and format modules, which masks leave alone
+  private readonly reserved: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array(this.size).fill(false))
+    this.drawFunctionPatterns()
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.reserved[y][x] = true
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4)
+          }
+        }
+      }
+    }
+
+    const positions = getAlignmentPositions(this.version)
+    positions.forEach((cx, i) => positions.forEach((cy, j) => {
+      // Corners already taken by finder patterns
+      const last = positions.length - 1
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    }))
+
+    // Reserve the format areas now; the bits are written once the mask is chosen
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) === 1
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  // Codewords in the two-column zigzag from the bottom right corner
+  drawCodewords(codewords: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // Applying a mask twice removes it again
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && getMask(mask, x, y)) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  // Penalty score for how hard the symbol is to scan; lower is better
+  getPenalty(): number {
+    const lines = [
+      ...this.modules.map(row => row.map(Number).join('')),
+      ...this.modules.map((_, x) => this.modules.map(row => Number(row[x])).join(''))
+    ]
+    let penalty = 0
+
+    for (const line of lines) {
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) penalty += run.length - 2
+      penalty += 40 * (line.match(/(?=10111010000|00001011101)/g) ?? []).length
+    }
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x]
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = this.size * this.size
+    penalty += 10 * (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1)
+
+    return penalty
+  }
+}
+
+// Smallest version that holds the bytes, null when none does
+function getVersion(bytes: Uint8Array): number | null {
+  for (let version = 1; version <= MAX_VERSION; version++) {
+    if (bytes.length + (version < 10 ? 2 : 3) <= getDataCodewords(version)) return version
+  }
+  return null
+}
+
+// Whether the text is short enough for a QR code; encodeQr throws otherwise
+export function fitsQr(text: string): boolean {
+  return getVersion(new TextEncoder().encode(text)) !== null
+}
+
+// Modules of a QR code for the text, in the smallest version that fits it
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+  const version = getVersion(bytes)
+  if (version === null) {
+    throw new Error(`Text of ${bytes.length} bytes is too long for a QR code`)
+  }
+
+  const builder = new QrBuilder(version)
+  builder.drawCodewords(addErrorCorrection(getDataBytes(bytes, version), version))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    builder.applyMask(mask)
+    builder.drawFormatBits(mask)
+    const penalty = builder.getPenalty()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    builder.applyMask(mask)
+  }
+
+  builder.applyMask(bestMask)
+  builder.drawFormatBits(bestMask)
+  return builder.modules
+}
+
+// SVG path drawing the dark modules, offset by the quiet zone
+export function getQrPath(matrix: QrMatrix): string {
+  return matrix
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z` : '')))
+    .join('')
+}
+
+// Standalone SVG image of a QR code, for downloading
+export function renderQrSvg(text: string): string {
+  const matrix = encodeQr(text)
+  const size = matrix.length + QR_QUIET_ZONE * 2
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${getQrPath(matrix)}" fill="#000"/></svg>`
+}
@@ -0,0 +1,67 @@
+// Shareable links such as /?from=ENTRANCE&to=A233&mode=stepfree&floor=2
+
+import { Building } from './building'
+import { RoutingProfile } from './pathfinding'
+
+export interface RouteLink {
+  from?: string
+  to?: string
+  mode?: RoutingProfile
+  floor?: number
+}
+
+// Short spellings used in links; the profile names themselves are accepted too
+const modeParams: Record<RoutingProfile, string> = {
+  'shortest': 'shortest',
+  'step-free': 'stepfree',
+  'avoid-elevators': 'noelevators',
+  'prefer-stairs': 'stairs'
+}
+
+function parseMode(value: string | null): RoutingProfile | undefined {
+  if (!value) return undefined
+  return (Object.keys(modeParams) as RoutingProfile[])
+    .find(profile => modeParams[profile] === value.toLowerCase() || profile === value.toLowerCase())
+}
+
+// Floor level a link names, when it names one the map has. Missing and blank
+// values are no floor rather than floor 0.
+function parseFloor(value: string | null, map: Building): number | undefined {
+  if (!value || !/^-?\d+$/.test(value.trim())) return undefined
+  const floor = Number(value)
+  return map.floors.some(({ level }) => level === floor) ? floor : undefined
+}
+
+// Route a query string asks for; unknown nodes, modes and floors are dropped
+// so a stale link still opens the app
+export function parseRouteLink(search: string, map: Building): RouteLink {
+  const params = new URLSearchParams(search)
+  const node = (name: string) => {
+    const id = params.get(name)
+    return id && map.nodes[id] ? id : undefined
+  }
+
+  return {
+    from: node('from'),
+    to: node('to'),
+    mode: parseMode(params.get('mode')),
+    floor: parseFloor(params.get('floor'), map)
+  }
+}
+
+// Query string for a route, "" when there is nothing to share
+export function formatRouteLink(link: RouteLink): string {
+  const params = new URLSearchParams()
+  if (link.from) params.set('from', link.from)
+  if (link.to) params.set('to', link.to)
+  if (link.mode && link.mode !== 'shortest') params.set('mode', modeParams[link.mode])
+  if (link.floor !== undefined) params.set('floor', String(link.floor))
+
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+// Absolute link to the app for a route, for QR codes and posters
+export function getRouteUrl(link: RouteLink): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}${formatRouteLink(link)}`
+}
@@ -0,0 +1,285 @@
+// Directions on paper: a route split into per-floor sections, each with a
+// top-down snapshot, numbered steps and floor-change callouts. The print view
+// and the PDF export both draw from this.
+
+import { Building, PathNode, getDisplayName, getFloorNodes, isRoomNode } from './building'
+import { I18n } from './i18n'
+import { describeStep, explainRoute } from './instructions'
+import { PathStep, RoutingProfile, estimateMinutes, getRouteDistance } from './pathfinding'
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, Point } from './pdf'
+
+// Step numbers match the directions panel: the first step is 1
+export interface SheetStep {
+  number: number
+  step: PathStep
+  instruction: string
+  // "Take the stairs up to Floor 2" on steps that change floors
+  callout?: string
+}
+
+// Consecutive steps on one floor
+export interface SheetSection {
+  floor: number
+  floorName: string
+  steps: SheetStep[]
+}
+
+export interface RouteSheet {
+  mapName: string
+  from: string
+  to: string
+  distance: number
+  minutes: number
+  summary: string
+  sections: SheetSection[]
+}
+
+// Snapshot contents in map coordinates, seen from above (x right, z down).
+// That puts north (-z) at the top and east (+x) on the right, the view the
+// compass and turn words in the steps are worded for.
+export type SnapshotShape =
+  | { kind: 'corridor', points: Point[] }
+  | { kind: 'room', at: Point, label: string, onRoute: boolean }
+  | { kind: 'route', points: Point[] }
+  | { kind: 'step', at: Point, number: number }
+  | { kind: 'end', at: Point, role: 'start' | 'destination' }
+
+export const SHEET_COLORS = {
+  corridor: '#cbd5e1',
+  room: '#e2e8f0',
+  roomOnRoute: '#bfdbfe',
+  route: '#2563eb',
+  start: '#16a34a',
+  destination: '#dc2626',
+  text: '#0f172a',
+  muted: '#64748b',
+  callout: '#fef3c7'
+}
+
+// Map units of empty space around the building in a snapshot
+const SNAPSHOT_PADDING = 1
+
+// Largest snapshot in the PDF, in points
+const PDF_MARGIN = 48
+const PDF_SNAPSHOT_HEIGHT = 240
+
+function toPoint(node: PathNode): Point {
+  return [node.position[0], node.position[2]]
+}
+
+function getFloorName(map: Building, floor: number, { t }: I18n): string {
+  return map.floors.find(({ level }) => level === floor)?.name ?? t('floor.number', { floor })
+}
+
+export function buildRouteSheet(map: Building, steps: PathStep[], profile: RoutingProfile, i18n: I18n): RouteSheet {
+  const { t } = i18n
+  const sections: SheetSection[] = []
+
+  steps.forEach((step, index) => {
+    const to = map.nodes[step.to]
+    const callout = step.floorChange
+      ? t(`sheet.${step.floorChange}`, { connector: t(`node.${to.type}`), floor: getFloorName(map, to.floor, i18n) })
+      : undefined
+
+    const last = sections[sections.length - 1]
+    if (!last || last.floor !== step.floor) {
+      sections.push({ floor: step.floor, floorName: getFloorName(map, step.floor, i18n), steps: [] })
+    }
+    sections[sections.length - 1].steps.push({
+      number: index + 1,
+      step,
+      instruction: describeStep(map, step, i18n),
+      callout
+    })
+  })
+
+  return {
+    mapName: map.metadata.name,
+    from: getDisplayName(map, steps[0].from, i18n),
+    to: getDisplayName(map, steps[steps.length - 1].to, i18n),
+    distance: getRouteDistance(steps),
+    minutes: estimateMinutes(steps),
+    summary: explainRoute(map, steps, profile, i18n),
+    sections
+  }
+}
+
+// "12.5 m • about 7 min walk"
+export function formatSheetTotals(sheet: RouteSheet, { t, formatNumber }: I18n): string {
+  return t('sheet.totals', {
+    distance: t('distance.meters', { distance: formatNumber(sheet.distance, 1) }),
+    time: t('time.walk', { minutes: sheet.minutes })
+  })
+}
+
+// Area every snapshot shows, the whole building so floors line up on paper
+export function getSnapshotBounds(map: Building): { left: number, top: number, width: number, height: number } {
+  const points = Object.values(map.nodes).map(toPoint)
+  const xs = points.map(([x]) => x)
+  const zs = points.map(([, z]) => z)
+  const left = Math.min(...xs) - SNAPSHOT_PADDING
+  const top = Math.min(...zs) - SNAPSHOT_PADDING
+
+  return {
+    left,
+    top,
+    width: Math.max(...xs) + SNAPSHOT_PADDING - left,
+    height: Math.max(...zs) + SNAPSHOT_PADDING - top
+  }
+}
+
+// Maps snapshot coordinates into a box, keeping the building's proportions
+export function createProjection(map: Building, width: number, height: number): (point: Point) => Point {
+  const bounds = getSnapshotBounds(map)
+  const scale = Math.min(width / bounds.width, height / bounds.height)
+  const offsetX = (width - bounds.width * scale) / 2
+  const offsetY = (height - bounds.height * scale) / 2
+
+  return ([x, z]) => [offsetX + (x - bounds.left) * scale, offsetY + (z - bounds.top) * scale]
+}
+
+// Snapshot size that fits the building's proportions into a width
+export function getSnapshotHeight(map: Building, width: number, maxHeight: number): number {
+  const bounds = getSnapshotBounds(map)
+  return Math.min(maxHeight, width * bounds.height / bounds.width)
+}
+
+export function getSnapshotShapes(map: Building, sheet: RouteSheet, section: SheetSection): SnapshotShape[] {
+  const floorNodes = getFloorNodes(map, section.floor)
+  const onFloor = (id: string) => map.nodes[id].floor === section.floor
+  const routeIds = section.steps
+    .flatMap(({ step }) => [step.from, ...step.via, step.to])
+    .filter((id, i, ids) => onFloor(id) && ids[i - 1] !== id)
+
+  const corridors: SnapshotShape[] = Object.values(map.edges)
+    .filter(({ from, to }) => from < to || !map.edges[`${to}>${from}`])
+    .filter(({ from, to }) => onFloor(from) && onFloor(to))
+    .map(({ from, to }) => ({ kind: 'corridor', points: [toPoint(map.nodes[from]), toPoint(map.nodes[to])] }))
+
+  const rooms: SnapshotShape[] = floorNodes
+    .filter(isRoomNode)
+    .map(room => ({ kind: 'room', at: toPoint(room), label: room.id, onRoute: routeIds.includes(room.id) }))
+
+  const firstStep = section.steps[0]
+  const lastStep = section.steps[section.steps.length - 1]
+  const ends: SnapshotShape[] = []
+  if (firstStep.number === 1) {
+    ends.push({ kind: 'end', at: toPoint(map.nodes[firstStep.step.from]), role: 'start' })
+  }
+  if (section === sheet.sections[sheet.sections.length - 1]) {
+    ends.push({ kind: 'end', at: toPoint(map.nodes[lastStep.step.to]), role: 'destination' })
+  }
+
+  return [
+    ...corridors,
+    ...rooms,
+    { kind: 'route', points: routeIds.map(id => toPoint(map.nodes[id])) },
+    ...ends,
+    ...section.steps.map(({ number, step }): SnapshotShape => ({ kind: 'step', at: toPoint(map.nodes[step.from]), number }))
+  ]
+}
+
+function drawSnapshot(pdf: PdfDocument, map: Building, sheet: RouteSheet, section: SheetSection, top: number, height: number, i18n: I18n) {
+  const width = PAGE_WIDTH - PDF_MARGIN * 2
+  const project = createProjection(map, width, height)
+  const place = (point: Point): Point => {
+    const [x, y] = project(point)
+    return [PDF_MARGIN + x, top + y]
+  }
+
+  pdf.rect(PDF_MARGIN, top, width, height, { fill: '#f8fafc', stroke: SHEET_COLORS.corridor, width: 0.5 })
+
+  // North arrow in the top right corner
+  const north = i18n.t('sheet.north')
+  const [arrowX, arrowY] = [PDF_MARGIN + width - 14, top + 8]
+  pdf.polyline([[arrowX, arrowY + 24], [arrowX, arrowY + 12]], { stroke: SHEET_COLORS.muted, width: 1 })
+  pdf.polyline([[arrowX - 4, arrowY + 16], [arrowX, arrowY + 12], [arrowX + 4, arrowY + 16]], { stroke: SHEET_COLORS.muted, width: 1 })
+  pdf.text(arrowX - PdfDocument.textWidth(north, 8, true) / 2, arrowY + 8, north, { size: 8, bold: true, color: SHEET_COLORS.muted })
+
+  for (const shape of getSnapshotShapes(map, sheet, section)) {
+    switch (shape.kind) {
+      case 'corridor':
+        pdf.polyline(shape.points.map(place), { stroke: SHEET_COLORS.corridor, width: 4 })
+        break
+      case 'room': {
+        const [x, y] = place(shape.at)
+        pdf.rect(x - 14, y - 9, 28, 18, {
+          fill: shape.onRoute ? SHEET_COLORS.roomOnRoute : SHEET_COLORS.room,
+          stroke: SHEET_COLORS.muted,
+          width: 0.5
+        })
+        pdf.text(x - PdfDocument.textWidth(shape.label, 7) / 2, y + 2.5, shape.label, { size: 7, color: SHEET_COLORS.text })
+        break
+      }
+      case 'route':
+        pdf.polyline(shape.points.map(place), { stroke: SHEET_COLORS.route, width: 3 })
+        break
+      case 'end': {
+        const [x, y] = place(shape.at)
+        pdf.circle(x, y, 7, { fill: shape.role === 'start' ? SHEET_COLORS.start : SHEET_COLORS.destination })
+        break
+      }
+      case 'step': {
+        const [x, y] = place(shape.at)
+        const label = String(shape.number)
+        pdf.circle(x + 9, y - 9, 6, { fill: '#ffffff', stroke: SHEET_COLORS.route, width: 1 })
+        pdf.text(x + 9 - PdfDocument.textWidth(label, 7, true) / 2, y - 6.5, label, { size: 7, bold: true, color: SHEET_COLORS.route })
+        break
+      }
+    }
+  }
+}
+
+// The route sheet as a PDF file, made without leaving the browser
+export function renderRouteSheetPdf(map: Building, sheet: RouteSheet, printedAt: Date, i18n: I18n): Blob {
+  const { t, formatNumber } = i18n
+  const pdf = new PdfDocument()
+  const width = PAGE_WIDTH - PDF_MARGIN * 2
+  const bottom = PAGE_HEIGHT - PDF_MARGIN
+  let y = PDF_MARGIN + 20
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      pdf.addPage()
+      y = PDF_MARGIN + 12
+    }
+  }
+
+  pdf.text(PDF_MARGIN, y, t('sheet.title', { to: sheet.to }), { size: 20, bold: true, color: SHEET_COLORS.text })
+  y += 20
+  pdf.text(PDF_MARGIN, y, t('sheet.from', { from: sheet.from, map: sheet.mapName }), { size: 11, color: SHEET_COLORS.muted })
+  y += 18
+  pdf.text(PDF_MARGIN, y, formatSheetTotals(sheet, i18n), { size: 12, bold: true })
+  y += 16
+  y = pdf.paragraph(PDF_MARGIN, y, width, sheet.summary, { size: 10, color: SHEET_COLORS.muted })
+  pdf.text(PDF_MARGIN, y, t('sheet.printed', { date: i18n.formatDate(printedAt, { dateStyle: 'medium', timeStyle: 'short' }) }), {
+    size: 8,
+    color: SHEET_COLORS.muted
+  })
+  y += 20
+
+  const snapshotHeight = getSnapshotHeight(map, width, PDF_SNAPSHOT_HEIGHT)
+  for (const section of sheet.sections) {
+    ensureSpace(snapshotHeight + 60)
+    pdf.text(PDF_MARGIN, y, section.floorName, { size: 14, bold: true, color: SHEET_COLORS.text })
+    y += 8
+    drawSnapshot(pdf, map, sheet, section, y, snapshotHeight, i18n)
+    y += snapshotHeight + 20
+
+    for (const { number, step, instruction, callout } of section.steps) {
+      ensureSpace(callout ? 52 : 30)
+      pdf.text(PDF_MARGIN, y, `${number}.`, { size: 11, bold: true, color: SHEET_COLORS.route })
+      y = pdf.paragraph(PDF_MARGIN + 22, y, width - 22, `${instruction} (${t('distance.meters', { distance: formatNumber(step.distance, 1) })})`, { size: 11 })
+
+      if (callout) {
+        pdf.rect(PDF_MARGIN + 22, y - 8, width - 22, 20, { fill: SHEET_COLORS.callout })
+        pdf.text(PDF_MARGIN + 30, y + 5, callout, { size: 10, bold: true, color: '#92400e' })
+        y += 22
+      }
+      y += 4
+    }
+    y += 12
+  }
+
+  return pdf.toBlob()
+}
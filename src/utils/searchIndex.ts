@@ -0,0 +1,245 @@
+// Ranked, typo-tolerant search over rooms and other named places
+
+import { Building, RoomNode, getRoom, getRooms } from './building'
+import { I18n, MessageKey, createI18n } from './i18n'
+import { DirectoryEntry, DirectoryKind } from './directory'
+
+// Text an entry can be found by, and how much a match on it counts
+export interface SearchField {
+  text: string
+  weight: number
+}
+
+export interface SearchDocument<T> {
+  item: T
+  // Stable identity, also the last tie-breaker between equal scores
+  key: string
+  fields: SearchField[]
+  // Identifiers such as room numbers, matched ignoring dashes, spaces and leading zeros
+  codes?: string[]
+  category?: string
+}
+
+export interface SearchOptions {
+  // Only entries in one of these categories
+  categories?: string[]
+  limit?: number
+}
+
+export interface SearchResult<T> {
+  item: T
+  score: number
+}
+
+interface IndexedDocument<T> {
+  document: SearchDocument<T>
+  fields: { tokens: string[], text: string, weight: number }[]
+  codes: string[]
+}
+
+// Words that say nothing about which place is meant
+const STOP_WORDS = new Set(['room', 'rm', 'the', 'of'])
+
+// Scores for identifier matches; they outrank any text match on purpose
+const CODE_EXACT = 3
+const CODE_NUMBER = 2.5
+const CODE_PREFIX = 2
+
+// Quality of a single query word against an indexed word
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.75
+const FUZZY_MATCH = 0.6
+const FUZZY_STEP = 0.15
+
+// Bonus when the whole query starts a field, e.g. "comp" for "Computer Lab"
+const PHRASE_PREFIX_BONUS = 0.25
+
+// Lowercase without accents
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+// Words of a text, without possessives so "Smith's" matches "Smith"
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .replace(/['’]s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token))
+}
+
+// "A-0233", "a 233" and "A233" all become "a233"
+export function normalizeCode(text: string): string {
+  return normalizeText(text)
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/(^|[a-z])0+(?=\d)/g, '$1')
+}
+
+// Edit distance counting adjacent swaps as one edit, so "libaray" is close to "library"
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + substitution)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return rows[a.length][b.length]
+}
+
+// Typos tolerated for a word of this length; short words must be spelled right
+function allowedEdits(length: number): number {
+  if (length < 4) return 0
+  return length < 8 ? 1 : 2
+}
+
+function matchWord(query: string, word: string): number {
+  if (query === word) return EXACT_MATCH
+  if (word.startsWith(query)) return PREFIX_MATCH
+
+  const edits = allowedEdits(query.length)
+  if (edits === 0) return 0
+
+  // Compare against the word and, for partly typed words, its start
+  const distance = Math.min(editDistance(query, word), editDistance(query, word.slice(0, query.length)))
+  return distance <= edits ? FUZZY_MATCH - FUZZY_STEP * (distance - 1) : 0
+}
+
+function scoreCodes(queryCode: string, codes: string[]): number {
+  if (!queryCode) return 0
+
+  let best = 0
+  for (const code of codes) {
+    if (code === queryCode) best = Math.max(best, CODE_EXACT)
+    else if (code.replace(/^[a-z]+/, '') === queryCode) best = Math.max(best, CODE_NUMBER)
+    else if (code.startsWith(queryCode)) best = Math.max(best, CODE_PREFIX)
+  }
+  return best
+}
+
+export class SearchIndex<T> {
+  private documents: IndexedDocument<T>[]
+
+  constructor(documents: SearchDocument<T>[]) {
+    this.documents = documents.map(document => ({
+      document,
+      fields: document.fields.map(field => ({
+        tokens: tokenize(field.text),
+        text: normalizeText(field.text),
+        weight: field.weight
+      })),
+      codes: (document.codes ?? []).map(normalizeCode)
+    }))
+  }
+
+  // Entries matching every word of the query, best first
+  search(query: string, options: SearchOptions = {}): SearchResult<T>[] {
+    const words = tokenize(query)
+    const phrase = normalizeText(query).trim()
+    if (!phrase) return []
+
+    // "room 233" is tried as "233" as well as it stands
+    const queryCodes = [normalizeCode(query), normalizeCode(words.join(''))]
+    const results: (SearchResult<T> & { key: string })[] = []
+
+    for (const indexed of this.documents) {
+      const { item, key, category } = indexed.document
+      if (options.categories && (!category || !options.categories.includes(category))) continue
+
+      const score = Math.max(
+        ...queryCodes.map(code => scoreCodes(code, indexed.codes)),
+        this.scoreText(indexed, words, phrase)
+      )
+      if (score > 0) results.push({ item, key, score })
+    }
+
+    results.sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+
+    return results
+      .slice(0, options.limit ?? results.length)
+      .map(({ item, score }) => ({ item, score }))
+  }
+
+  // Average best match of each query word; zero unless every word matches somewhere
+  private scoreText(indexed: IndexedDocument<T>, words: string[], phrase: string): number {
+    if (words.length === 0) return 0
+
+    let total = 0
+    for (const query of words) {
+      let best = 0
+      for (const field of indexed.fields) {
+        for (const word of field.tokens) {
+          best = Math.max(best, matchWord(query, word) * field.weight)
+        }
+      }
+      if (best === 0) return 0
+      total += best
+    }
+
+    const bonus = Math.max(0, ...indexed.fields
+      .filter(field => field.text.startsWith(phrase))
+      .map(field => PHRASE_PREFIX_BONUS * field.weight))
+
+    return total / words.length + bonus
+  }
+}
+
+// Something the search box can find: a room, or a directory entry and the room it is in
+export type Place =
+  | { kind: 'room', room: RoomNode }
+  | { kind: DirectoryKind, room: RoomNode, entry: DirectoryEntry }
+
+const english = createI18n('en')
+
+// A label in English, and also in the interface language when that differs
+function getLabels(key: MessageKey, i18n: I18n | undefined): string[] {
+  const labels = [english.t(key), i18n?.t(key)]
+  return [...new Set(labels.filter(label => label !== undefined))]
+}
+
+// Index of every room by number, name, aliases, category and amenities, and of
+// directory entries by name, aliases and title. Entries can also be found by
+// their room's name, so "Smith's office" finds a person in "Faculty Offices".
+// Amenities and categories also match by their name in the interface language.
+export function createPlaceIndex(building: Building, directory: DirectoryEntry[] = [], i18n?: I18n): SearchIndex<Place> {
+  const rooms: SearchDocument<Place>[] = getRooms(building).map(room => ({
+    item: { kind: 'room', room },
+    key: room.id,
+    codes: [room.id],
+    category: room.room.category,
+    fields: [
+      { text: room.id, weight: 1 },
+      { text: room.room.name, weight: 1 },
+      ...room.room.aliases.map(alias => ({ text: alias, weight: 0.9 })),
+      ...(room.amenities ?? [])
+        .flatMap(amenity => getLabels(`amenity.${amenity}`, i18n))
+        .map(text => ({ text, weight: 0.7 })),
+      ...getLabels(`category.${room.room.category}`, i18n)
+        .map(text => ({ text, weight: 0.5 }))
+    ]
+  }))
+
+  const entries = directory.flatMap((entry): SearchDocument<Place>[] => {
+    const room = getRoom(building, entry.roomId)
+    if (!room) return []
+
+    return [{
+      item: { kind: entry.kind, room, entry },
+      key: `${entry.kind}:${entry.id}`,
+      category: entry.kind,
+      fields: [
+        { text: entry.name, weight: 1 },
+        ...entry.aliases.map(alias => ({ text: alias, weight: 0.9 })),
+        ...(entry.title ? [{ text: entry.title, weight: 0.6 }] : []),
+        { text: room.room.name, weight: 0.4 }
+      ]
+    }]
+  })
+
+  return new SearchIndex([...rooms, ...entries])
+}
@@ -0,0 +1,65 @@
+// Registration of the offline service worker (public/sw.js) and the updates
+// it announces to the page
+
+export type OfflineEvent =
+  // A map, closures or directory file changed on the server
+  | { type: 'map-data-updated', url: string }
+  // A new version of the app is installed and waits for a reload
+  | { type: 'app-update-ready' }
+
+type OfflineListener = (event: OfflineEvent) => void
+
+const listeners = new Set<OfflineListener>()
+// Events that arrived before anything subscribed, delivered to the first subscriber
+const pending: OfflineEvent[] = []
+let waitingWorker: ServiceWorker | null = null
+
+function emit(event: OfflineEvent) {
+  if (listeners.size === 0) {
+    pending.push(event)
+    return
+  }
+  listeners.forEach(listener => listener(event))
+}
+
+export function subscribeOfflineEvents(listener: OfflineListener): () => void {
+  listeners.add(listener)
+  pending.splice(0).forEach(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Only announced when replacing a worker; the first install just takes over
+function watchForUpdate(worker: ServiceWorker | null) {
+  if (!worker) return
+
+  const announce = () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      waitingWorker = worker
+      emit({ type: 'app-update-ready' })
+    }
+  }
+  announce()
+  worker.addEventListener('statechange', announce)
+}
+
+export async function registerServiceWorker(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return
+
+  navigator.serviceWorker.addEventListener('message', event => {
+    if (event.data?.type === 'map-data-updated') emit(event.data)
+  })
+
+  const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+  watchForUpdate(registration.waiting)
+  registration.addEventListener('updatefound', () => watchForUpdate(registration.installing))
+}
+
+// Switch to the waiting version and reload into it
+export function applyAppUpdate() {
+  if (!waitingWorker) return
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+  waitingWorker.postMessage({ type: 'skip-waiting' })
+}
@@ -0,0 +1,141 @@
+// Spoken directions: a queue of announcements in front of a speech engine,
+// which is the browser's speech synthesis in the app and a stub in tests
+
+import { Locale } from './i18n'
+
+export interface VoiceOption {
+  id: string
+  name: string
+  lang: string
+}
+
+export interface SpeechOptions {
+  // BCP 47 language of the text, e.g. "fr-CA"
+  lang: string
+  // 1 is normal speed
+  rate: number
+  // VoiceOption id; the engine's default voice for the language when unset
+  voice?: string
+}
+
+export interface SpeechEngine {
+  // Settles once the text has been spoken, or was cut off or failed
+  speak: (text: string, options: SpeechOptions) => Promise<void>
+  cancel: () => void
+  getVoices: () => VoiceOption[]
+  // Voices can arrive after the page loads; returns an unsubscribe function
+  onVoicesChanged: (listener: () => void) => () => void
+}
+
+export interface VoiceSettings {
+  muted: boolean
+  rate: number
+  // Chosen voice for each language
+  voices: Partial<Record<Locale, string>>
+}
+
+export const MIN_SPEECH_RATE = 0.5
+export const MAX_SPEECH_RATE = 2
+
+// Off until asked for: the app is also used in libraries and lecture halls
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = { muted: true, rate: 1, voices: {} }
+
+const STORAGE_KEY = 'slc-navigation:voice'
+
+// Announcements spoken one after another. A new step interrupts whatever is
+// still being said about the previous one.
+export class SpeechQueue {
+  private engine: SpeechEngine
+  private options: SpeechOptions = { lang: 'en-US', rate: 1 }
+  private pending: string[] = []
+  private speaking = false
+
+  constructor(engine: SpeechEngine) {
+    this.engine = engine
+  }
+
+  // Applies from the next announcement on
+  configure(options: SpeechOptions) {
+    this.options = options
+  }
+
+  enqueue(text: string) {
+    this.pending.push(text)
+    void this.drain()
+  }
+
+  // Drops what is pending and cuts off what is being said
+  interrupt(...texts: string[]) {
+    this.clear()
+    texts.forEach(text => this.enqueue(text))
+  }
+
+  clear() {
+    this.pending = []
+    if (this.speaking) this.engine.cancel()
+  }
+
+  private async drain() {
+    if (this.speaking) return
+
+    this.speaking = true
+    while (this.pending.length > 0) {
+      const text = this.pending.shift()!
+      await this.engine.speak(text, this.options)
+    }
+    this.speaking = false
+  }
+}
+
+export function createBrowserSpeechEngine(): SpeechEngine | null {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return null
+
+  const synth = window.speechSynthesis
+  return {
+    speak: (text, { lang, rate, voice }) => new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text)
+      utterance.lang = lang
+      utterance.rate = rate
+      const match = synth.getVoices().find(option => option.voiceURI === voice)
+      if (match) utterance.voice = match
+      utterance.onend = () => resolve()
+      utterance.onerror = () => resolve()
+      synth.speak(utterance)
+    }),
+    cancel: () => synth.cancel(),
+    getVoices: () => synth.getVoices().map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang })),
+    onVoicesChanged: listener => {
+      synth.addEventListener('voiceschanged', listener)
+      return () => synth.removeEventListener('voiceschanged', listener)
+    }
+  }
+}
+
+// Voices that read a language well, e.g. "fr-CA" and "fr-FR" for French
+export function getVoicesFor(voices: VoiceOption[], locale: Locale): VoiceOption[] {
+  return voices.filter(voice => voice.lang.toLowerCase().startsWith(locale))
+}
+
+export function loadVoiceSettings(): VoiceSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    if (!saved || typeof saved !== 'object') return DEFAULT_VOICE_SETTINGS
+
+    const rate = Number(saved.rate)
+    return {
+      muted: saved.muted !== false,
+      rate: rate >= MIN_SPEECH_RATE && rate <= MAX_SPEECH_RATE ? rate : DEFAULT_VOICE_SETTINGS.rate,
+      voices: typeof saved.voices === 'object' && saved.voices ? saved.voices : {}
+    }
+  } catch {
+    return DEFAULT_VOICE_SETTINGS
+  }
+}
+
+export function saveVoiceSettings(settings: VoiceSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Not remembered, but the settings still apply to this visit
+  }
+}
@@ -0,0 +1,256 @@
+// Class timetables imported from iCalendar (.ics) exports. Files are read in
+// the browser and never leave the device.
+
+import { Building, getRooms } from './building'
+import { createPlaceIndex, normalizeCode } from './searchIndex'
+
+// One meeting of a class; recurring events are expanded into one per meeting
+export interface ClassEvent {
+  uid: string
+  summary: string
+  // Location as written in the calendar, e.g. "SLC Kingston - A233"
+  location: string
+  // Room the location was matched to, if any
+  roomId?: string
+  start: Date
+  end: Date
+}
+
+export interface NextClass {
+  next: ClassEvent
+  // Class the same day that ends before the next one starts
+  previous?: ClassEvent
+}
+
+export class TimetableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimetableError'
+  }
+}
+
+interface Property {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// Recurring events stop after this many meetings when the rule sets no end
+const MAX_OCCURRENCES = 200
+
+// Lowest search score a location may match a room with
+const MIN_LOCATION_SCORE = 0.75
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+// Lines longer than 75 octets are folded onto continuation lines starting with whitespace
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim())
+}
+
+// "DTSTART;TZID=America/Toronto:20260914T083000" → name, params and value
+function parseProperty(line: string): Property | null {
+  const match = /^([A-Za-z0-9-]+)((?:;[^:;]+=(?:"[^"]*"|[^:;]*))*):(.*)$/.exec(line)
+  if (!match) return null
+
+  const params: Record<string, string> = {}
+  for (const param of match[2].split(';').slice(1)) {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: match[1].toUpperCase(), params, value: match[3] }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+// Times with a trailing Z are UTC; all others, including those with a TZID,
+// are read as local time, as campus calendars are exported in the campus time zone
+function parseDateTime(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value)
+  if (!match) return null
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number)
+  return match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds)
+}
+
+// RRULE counts such as INTERVAL and COUNT: whole numbers from 1 up, else null
+function parseCount(value: string): number | null {
+  return /^\d+$/.test(value) && Number(value) >= 1 ? Number(value) : null
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+// Start times of every meeting of an event; supports daily and weekly rules
+// with INTERVAL, COUNT, UNTIL and BYDAY, which is what timetables use
+function expandRule(start: Date, rule: string | undefined, excluded: Set<number>): Date[] {
+  if (!rule) return [start]
+
+  const parts = Object.fromEntries(rule.split(';').map(part => part.split('=') as [string, string]))
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return [start]
+
+  // A rule that cannot be followed is treated like an unsupported one
+  const interval = parts.INTERVAL ? parseCount(parts.INTERVAL) : 1
+  const count = parts.COUNT ? parseCount(parts.COUNT) : MAX_OCCURRENCES
+  if (interval === null || count === null) return [start]
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL.length === 8 ? `${parts.UNTIL}T235959` : parts.UNTIL) : null
+  const byDay = parts.BYDAY?.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0)
+
+  // Weekly rules step through weeks starting on the event's week, then pick the listed days
+  const days = parts.FREQ === 'WEEKLY' && byDay?.length
+    ? [...byDay].sort((a, b) => a - b).map(day => day - start.getDay())
+    : [0]
+  const period = parts.FREQ === 'WEEKLY' ? 7 * interval : interval
+
+  const starts: Date[] = []
+  let generated = 0
+  for (let offset = 0; generated < count && generated < MAX_OCCURRENCES; offset += period) {
+    for (const day of days) {
+      const occurrence = addDays(start, offset + day)
+      if (occurrence < start) continue
+      if ((until && occurrence > until) || generated >= count) return starts
+
+      generated++
+      if (!excluded.has(occurrence.getTime())) starts.push(occurrence)
+    }
+  }
+  return starts
+}
+
+function getProperty(properties: Property[], name: string): Property | undefined {
+  return properties.find(property => property.name === name)
+}
+
+// A single meeting moved or cancelled in a recurring class is exported as an
+// extra VEVENT with the same UID, whose RECURRENCE-ID is the original start
+function getRecurrenceId(properties: Property[]): number | undefined {
+  return parseDateTime(getProperty(properties, 'RECURRENCE-ID')?.value ?? '')?.getTime()
+}
+
+// Meetings of one VEVENT, or none when it is all-day or has no usable start.
+// `replaced` holds the original starts of meetings overridden by other VEVENTs,
+// keyed by UID.
+function toClassEvents(
+  properties: Property[],
+  match: (location: string) => string | undefined,
+  replaced: Map<string, Set<number>>
+): ClassEvent[] {
+  const get = (name: string) => getProperty(properties, name)
+  const start = get('DTSTART')
+  if (!start || start.params.VALUE === 'DATE') return []
+
+  // An override stands for that one meeting, and a cancelled one for none
+  const isOverride = getRecurrenceId(properties) !== undefined
+  if (isOverride && get('STATUS')?.value.toUpperCase() === 'CANCELLED') return []
+
+  const startDate = parseDateTime(start.value)
+  if (!startDate) return []
+  const endDate = parseDateTime(get('DTEND')?.value ?? '') ?? startDate
+
+  const duration = endDate.getTime() - startDate.getTime()
+  const excluded = new Set(properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(','))
+    .map(value => parseDateTime(value)?.getTime())
+    .filter((time): time is number => time !== undefined))
+
+  const location = unescapeText(get('LOCATION')?.value ?? '').trim()
+  const roomId = match(location)
+  const summary = unescapeText(get('SUMMARY')?.value ?? 'Class')
+  const uid = get('UID')?.value ?? start.value
+  replaced.get(uid)?.forEach(time => excluded.add(time))
+
+  return expandRule(startDate, isOverride ? undefined : get('RRULE')?.value, excluded).map(occurrence => ({
+    uid,
+    summary,
+    location,
+    roomId,
+    start: occurrence,
+    end: new Date(occurrence.getTime() + duration)
+  }))
+}
+
+// Room a calendar location refers to: a room number anywhere in it, otherwise
+// the best name match for the location or one of its comma- or dash-separated parts
+export function matchRoom(map: Building, location: string, index = createPlaceIndex(map)): string | undefined {
+  const codes = new Set(location.split(/[\s,;]+/).map(normalizeCode))
+  const byCode = getRooms(map).find(room => codes.has(normalizeCode(room.id)))
+  if (byCode) return byCode.id
+
+  const parts = [location, ...location.split(/[,;]|\s[-–]\s/)].map(part => part.trim()).filter(Boolean)
+  const best = parts
+    .flatMap(part => index.search(part, { limit: 1 }))
+    .sort((a, b) => b.score - a.score)[0]
+  return best && best.score >= MIN_LOCATION_SCORE ? best.item.room.id : undefined
+}
+
+// Every timed meeting in an iCalendar file, in start order; all-day events are skipped
+export function parseTimetable(text: string, map: Building): ClassEvent[] {
+  const lines = unfold(text)
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new TimetableError('This is not an iCalendar (.ics) file')
+  }
+
+  // Timetables repeat a handful of locations, so each is matched once
+  const index = createPlaceIndex(map)
+  const rooms = new Map<string, string | undefined>()
+  const match = (location: string) => {
+    if (!rooms.has(location)) rooms.set(location, location ? matchRoom(map, location, index) : undefined)
+    return rooms.get(location)
+  }
+  const vevents: Property[][] = []
+  // Components open around the current line, so alarms inside events are skipped
+  const open: string[] = []
+  let current: Property[] = []
+
+  for (const line of lines) {
+    const property = parseProperty(line.trim())
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      open.push(property.value.toUpperCase())
+      if (property.value.toUpperCase() === 'VEVENT') current = []
+    } else if (property.name === 'END') {
+      if (open.pop() === 'VEVENT') vevents.push(current)
+    } else if (open[open.length - 1] === 'VEVENT') {
+      current.push(property)
+    }
+  }
+
+  // Overrides can come before or after the recurring event they change
+  const replaced = new Map<string, Set<number>>()
+  for (const properties of vevents) {
+    const uid = getProperty(properties, 'UID')?.value
+    const recurrenceId = getRecurrenceId(properties)
+    if (uid === undefined || recurrenceId === undefined) continue
+    replaced.set(uid, (replaced.get(uid) ?? new Set()).add(recurrenceId))
+  }
+
+  return vevents
+    .flatMap(properties => toClassEvents(properties, match, replaced))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+// The next class to start, and the class before it on the same day if any
+export function getNextClass(events: ClassEvent[], now: Date): NextClass | null {
+  const next = events.find(event => event.start > now)
+  if (!next) return null
+
+  const previous = events
+    .filter(event => event !== next && event.end <= next.start && event.start.toDateString() === next.start.toDateString())
+    .pop()
+  return { next, previous }
+}
+
+// Whole minutes between the end of one class and the start of the next
+export function getGapMinutes(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / 60000)
+}
@@ -1,9 +1,59 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+
+// Public files the service worker must not cache itself
+const UNCACHED_PUBLIC_FILES = ['_redirects', 'sw.js'];
+
+function listFiles(dir: string, prefix = ''): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+}
+
+// Emits precache-manifest.js, the list of files public/sw.js caches for
+// offline use. It changes with every build, which is how browsers notice
+// that a new version of the app is available.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const publicDir = path.resolve(__dirname, 'public');
+      const publicFiles = listFiles(publicDir).filter(file => !UNCACHED_PUBLIC_FILES.includes(file));
+      const files = [...Object.keys(bundle), ...publicFiles].sort();
+
+      const hash = createHash('sha256');
+      for (const file of files) {
+        const output = bundle[file];
+        hash.update(file);
+        hash.update(output
+          ? output.type === 'chunk' ? output.code : output.source
+          : readFileSync(path.join(publicDir, file)));
+      }
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 12),
+        // Map data is cached apart from the app so updates to it can be detected
+        app: files.filter(file => !file.startsWith('maps/')),
+        maps: files.filter(file => file.startsWith('maps/')),
+      };
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.PRECACHE = ${JSON.stringify(manifest, null, 2)};\n`,
+      });
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -15,4 +65,4 @@ export default defineConfig({
     host: true,
     allowedHosts: true,
   }
-});
\ No newline at end of file
+});